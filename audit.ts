@@ -0,0 +1,201 @@
+import { createHmac, randomBytes } from "crypto";
+import {
+  appendFileSync,
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import { getConfigDir } from "./credentials.js";
+import { matchesAnyGlob } from "./glob.js";
+
+/**
+ * `set` is a write that failed before GitHub said whether the secret
+ * was created or updated
+ */
+export type AuditOperation = "create" | "update" | "delete" | "set";
+
+export const AUDIT_OPERATIONS: AuditOperation[] = [
+  "create",
+  "update",
+  "delete",
+  "set",
+];
+
+/**
+ * One line of the audit journal
+ */
+export interface AuditEntry {
+  timestamp: string;
+  /** Login of the authenticated user, or "unknown" */
+  actor: string;
+  /** `owner/repo`, with the kind and environment as in formatTarget */
+  target: string;
+  secret: string;
+  operation: AuditOperation;
+  outcome: "success" | "failure";
+  error?: string;
+  /** Salted HMAC of the value, so rotations can be told apart */
+  fingerprint?: string;
+}
+
+export interface AuditFilter {
+  /** Globs matched against the target's `owner/repo` or `org:name` */
+  targets?: string[];
+  /** Globs matched against the secret name */
+  secrets?: string[];
+  actor?: string;
+  operation?: AuditOperation;
+  failedOnly?: boolean;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Where the journal lives: GH_SECRETS_AUDIT_LOG, or audit.jsonl in the
+ * config directory
+ */
+export function getAuditLogPath(): string {
+  return (
+    process.env.GH_SECRETS_AUDIT_LOG || join(getConfigDir(), "audit.jsonl")
+  );
+}
+
+/**
+ * Append-only JSONL record of the secret changes made by this tool.
+ * Values are never written, only a fingerprint keyed with a salt that
+ * stays on this machine, so the journal can't be used to guess them.
+ */
+export class AuditJournal {
+  private salt?: Buffer;
+
+  constructor(readonly path = getAuditLogPath()) {}
+
+  fingerprint(value: string): string {
+    const digest = createHmac("sha256", this.getSalt())
+      .update(value, "utf-8")
+      .digest("hex");
+    return `hmac-sha256:${digest.slice(0, 16)}`;
+  }
+
+  record(entry: Omit<AuditEntry, "timestamp">) {
+    const line: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
+    ensurePrivateDir(this.path);
+    appendFileSync(this.path, `${JSON.stringify(line)}\n`, { mode: 0o600 });
+  }
+
+  /**
+   * Load the salt next to the journal, creating it on first use
+   */
+  private getSalt(): Buffer {
+    if (!this.salt) {
+      const saltPath = `${this.path}.salt`;
+      if (existsSync(saltPath)) {
+        this.salt = Buffer.from(readFileSync(saltPath, "utf-8").trim(), "hex");
+      } else {
+        this.salt = randomBytes(32);
+        ensurePrivateDir(saltPath);
+        writeFileSync(saltPath, this.salt.toString("hex"), { mode: 0o600 });
+        chmodSync(saltPath, 0o600);
+      }
+    }
+    return this.salt;
+  }
+}
+
+function ensurePrivateDir(path: string) {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+}
+
+/**
+ * Read every entry of a journal. Lines that aren't valid JSON, e.g. one
+ * cut short by a crash, are skipped.
+ */
+export function readAuditLog(path = getAuditLogPath()): AuditEntry[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Partial line
+    }
+  }
+  return entries;
+}
+
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  filter: AuditFilter,
+): AuditEntry[] {
+  return entries.filter((entry) => {
+    const time = Date.parse(entry.timestamp);
+    return (
+      (!filter.targets ||
+        matchesAnyGlob(entry.target.split(" ")[0], filter.targets, "i")) &&
+      (!filter.secrets || matchesAnyGlob(entry.secret, filter.secrets, "i")) &&
+      (!filter.actor ||
+        entry.actor.toLowerCase() === filter.actor.toLowerCase()) &&
+      (!filter.operation || entry.operation === filter.operation) &&
+      (!filter.failedOnly || entry.outcome === "failure") &&
+      (!filter.since || time >= filter.since.getTime()) &&
+      (!filter.until || time <= filter.until.getTime())
+    );
+  });
+}
+
+/**
+ * Parse an ISO date or a relative age such as `30d` or `12h`
+ */
+export function parseAuditTime(value: string, now = Date.now()): Date | null {
+  const relative = value.match(/^(\d+)([dh])$/);
+  if (relative) {
+    const hours = Number(relative[1]) * (relative[2] === "d" ? 24 : 1);
+    return new Date(now - hours * 60 * 60 * 1000);
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "timestamp",
+  "actor",
+  "target",
+  "secret",
+  "operation",
+  "outcome",
+  "error",
+  "fingerprint",
+];
+
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const quote = (value: string | undefined) =>
+    /[",\r\n]/.test(value ?? "")
+      ? `"${value!.replace(/"/g, '""')}"`
+      : (value ?? "");
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => quote(entry[column])).join(","),
+    ),
+  ].join("\n");
+}
+
+/**
+ * One line per entry for the terminal
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const outcome =
+    entry.outcome === "success" ? "" : ` failed: ${entry.error ?? "unknown"}`;
+  return `${entry.timestamp}  ${entry.actor}  ${entry.operation.padEnd(6)}  ${entry.target} ${entry.secret}${outcome}`;
+}
@@ -0,0 +1,59 @@
+import { spawn } from "child_process";
+
+/**
+ * The command that opens a URL in the default browser. The URL is
+ * passed as its own argument, never through a shell.
+ */
+function browserCommand(url: string): [string, string[]] {
+  switch (process.platform) {
+    case "darwin":
+      return ["open", [url]];
+    case "win32":
+      // `start` would need cmd.exe, which interprets & and ^ in the URL
+      return ["rundll32", ["url.dll,FileProtocolHandler", url]];
+    default:
+      return ["xdg-open", [url]];
+  }
+}
+
+/**
+ * How long a launcher gets to fail before it counts as having opened
+ * the browser; some keep running as long as the browser does
+ */
+const LAUNCH_GRACE_MS = 2000;
+
+/**
+ * Open an http(s) URL in the default browser. Resolves to false when
+ * there's no browser to open, e.g. over SSH; never rejects.
+ */
+export function openBrowser(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return Promise.resolve(false);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return Promise.resolve(false);
+  }
+
+  const [command, args] = browserCommand(parsed.href);
+  return new Promise((resolve) => {
+    const child = spawn(command, args, {
+      stdio: "ignore",
+      detached: true,
+      windowsHide: true,
+    });
+    const timer = setTimeout(() => resolve(true), LAUNCH_GRACE_MS);
+    child.unref();
+
+    child.once("error", () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      resolve(code === 0);
+    });
+  });
+}
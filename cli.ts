@@ -1,21 +1,207 @@
-import { select, input, confirm, password } from "@inquirer/prompts";
+import {
+  select,
+  input,
+  confirm,
+  password,
+  checkbox,
+  search,
+} from "@inquirer/prompts";
 import chalk from "chalk";
-import ora from "ora";
-import { GitHubService, Repository, Secret } from "./github.js";
-import { readEnvFile, filterValidSecrets } from "./env-parser.js";
-import { GitHubOAuthDevice } from "./oauth.js";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import ora, { Ora } from "ora";
+import {
+  BatchOptions,
+  BatchResult,
+  DryRunRequest,
+  GitHubService,
+  OrgSecret,
+  OrgSecretVisibility,
+  Repository,
+  SECRET_KINDS,
+  Secret,
+  SecretKind,
+  SecretTarget,
+  Variable,
+  formatDryRunRequest,
+  formatTarget,
+} from "./github.js";
+import {
+  EnvWarning,
+  filterValidSecrets,
+  formatEnvWarning,
+  hasVariableReferences,
+  splitSecretsAndVariables,
+} from "./env-parser.js";
+import {
+  fanOutSecrets,
+  formatFanOutMatrix,
+  readRepositoryList,
+  selectByGlob,
+  selectByTopic,
+  summarizeFanOut,
+} from "./fanout.js";
+import { detectFormat, readSecretsFile } from "./formats.js";
+import {
+  GitHubAppAuth,
+  readAppCredentialsFromEnv,
+  readPrivateKey,
+} from "./github-app.js";
+import { RemoteRepository, listRemoteRepositories } from "./git-remote.js";
+import { parseGlobList } from "./glob.js";
+import {
+  GITHUB_COM,
+  GitHubHost,
+  HostSettings,
+  enterpriseHost,
+  getConfigPath,
+  isGitHubCom,
+  normalizeHostname,
+  resolveHost,
+  saveHost,
+} from "./hosts.js";
+import {
+  formatBlockedMessage,
+  formatLintFinding,
+  isBlocking,
+  lintSecrets,
+} from "./lint.js";
+import {
+  DEFAULT_LENGTHS,
+  MAX_LENGTH,
+  SecretFormat,
+  describeFormat,
+  generateSecretValue,
+  pipeToCommand,
+  rollOutSecret,
+} from "./rotate.js";
+import {
+  DEFAULT_MAX_AGE_DAYS,
+  StalenessSort,
+  collectSecretAges,
+  formatStalenessCsv,
+  formatStalenessTable,
+  parseMaxAge,
+  sortSecretAges,
+} from "./staleness.js";
+import { applySyncPlan, formatSyncPlan, hasChanges, planSync } from "./sync.js";
+import {
+  DEFAULT_REPOSITORY_FILTERS,
+  RepositoryFilters,
+  RepositoryVisibility,
+  describeFilters,
+  filterRepositories,
+} from "./repo-filter.js";
+import { DeviceFlowAbortedError, GitHubOAuthDevice } from "./oauth.js";
+import { openBrowser } from "./browser.js";
+import {
+  escapeValue,
+  isValueReference,
+  resolveAllReferences,
+} from "./references.js";
+import {
+  LARGE_SECRET_TIP,
+  MAX_SECRET_BYTES,
+  SecretTooLargeError,
+  formatBytes,
+  looksBinary,
+  readSecretFile,
+} from "./secret-size.js";
+import {
+  analyzeSecretUsage,
+  readLocalWorkflows,
+  scanWorkflows,
+} from "./workflows.js";
+import {
+  ResolvedToken,
+  describeTokenSource,
+  resolveToken,
+  saveCredential,
+} from "./credentials.js";
+import { existsSync, writeFileSync } from "fs";
+import { basename } from "path";
+
+const SECRET_KIND_LABELS: Record<SecretKind, string> = {
+  actions: "GitHub Actions",
+  dependabot: "Dependabot",
+  codespaces: "Codespaces",
+};
 
 // Default OAuth App Client ID (safe to be public)
-// Users can override this with their own OAuth App if desired
+// Users can override this with their own OAuth App if desired.
+// It's registered on github.com, so Enterprise Server needs its own.
 const DEFAULT_OAUTH_CLIENT_ID = "Ov23li3xgnuTj9rfcWSt"; // Replace with your actual Client ID
 
+/**
+ * Separates a spinner's own text from a rate-limit wait shown after it
+ */
+const RETRY_NOTICE_SEPARATOR = " · ";
+
+/**
+ * Print a write that dry-run mode held back, colored by what it would do
+ */
+export function printDryRunRequest(request: DryRunRequest) {
+  const line = formatDryRunRequest(request);
+  const color =
+    request.change === "create"
+      ? chalk.green
+      : request.change === "overwrite"
+        ? chalk.yellow
+        : request.change === "delete"
+          ? chalk.red
+          : chalk.cyan;
+  console.log(color(line));
+}
+
 export class SecretManagerCLI {
   private github: GitHubService | null = null;
   private currentUser: any = null;
+  private auth: ResolvedToken | null = null;
+  private isLoggingIn = false;
+  private repositoryFilters: RepositoryFilters = {
+    ...DEFAULT_REPOSITORY_FILTERS,
+  };
+  private dryRun: boolean;
+  private strict: boolean;
+  private host: GitHubHost;
+  /** Only print the device flow URL instead of opening a browser */
+  private noBrowser: boolean;
+  /** The latest spinner, where retry waits are shown */
+  private spinner: Ora | null = null;
+
+  constructor(
+    options: {
+      dryRun?: boolean;
+      strict?: boolean;
+      host?: HostSettings;
+      noBrowser?: boolean;
+    } = {},
+  ) {
+    this.dryRun = options.dryRun ?? false;
+    this.strict = options.strict ?? false;
+    this.host = resolveHost(options.host);
+    this.noBrowser = options.noBrowser ?? false;
+  }
+
+  private createService(auth: string | GitHubAppAuth): GitHubService {
+    return new GitHubService(auth, {
+      baseUrl: this.host.apiUrl,
+      dryRun: this.dryRun,
+      onDryRun: printDryRunRequest,
+      onRetry: ({ status, attempt, delayMs }) => {
+        const notice = `GitHub answered ${status}; retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`;
+        if (this.spinner?.isSpinning) {
+          const [text] = this.spinner.text.split(RETRY_NOTICE_SEPARATOR);
+          this.spinner.text = `${text}${RETRY_NOTICE_SEPARATOR}${notice}`;
+        } else {
+          console.log(chalk.yellow(`⚠ ${notice}`));
+        }
+      },
+    });
+  }
+
+  private startSpinner(text: string): Ora {
+    this.spinner = ora(text).start();
+    return this.spinner;
+  }
 
   async start() {
     console.clear();
@@ -25,7 +211,157 @@ export class SecretManagerCLI {
     await this.mainMenu();
   }
 
+  /**
+   * Authenticate interactively and save the token for future sessions
+   */
+  async login() {
+    console.log(chalk.bold.blue("\n🔐 gh-secrets-cli login\n"));
+
+    this.isLoggingIn = true;
+    await this.chooseAuthMethod();
+
+    if (this.github!.isApp()) {
+      console.log(
+        chalk.yellow(
+          "Installation tokens expire after an hour, so GitHub App logins aren't saved. Set GH_APP_ID, GH_APP_PRIVATE_KEY and GH_APP_INSTALLATION_ID instead.",
+        ),
+      );
+      return;
+    }
+
+    const path = await saveCredential(
+      this.auth!.token,
+      this.currentUser.login,
+      this.host.hostname,
+    );
+    console.log(chalk.green(`✓ Login saved to ${path}`));
+    this.rememberHost();
+  }
+
   private async authenticate() {
+    let credentials;
+    try {
+      credentials = readAppCredentialsFromEnv();
+    } catch (error) {
+      console.error(
+        chalk.yellow(
+          `⚠ ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+    if (
+      credentials &&
+      (await this.authenticateAsApp(
+        new GitHubAppAuth(credentials, { baseUrl: this.host.apiUrl }),
+      ))
+    ) {
+      return;
+    }
+
+    const resolved = await resolveToken(this.host.hostname);
+    if (resolved && (await this.authenticateWithResolvedToken(resolved))) {
+      return;
+    }
+
+    await this.chooseAuthMethod();
+  }
+
+  /**
+   * Try a token found without prompting; returns false if GitHub rejects it
+   */
+  private async authenticateWithResolvedToken(
+    resolved: ResolvedToken,
+  ): Promise<boolean> {
+    const spinner = this.startSpinner(
+      `Authenticating with token from ${describeTokenSource(resolved)}...`,
+    );
+
+    try {
+      this.github = this.createService(resolved.token);
+      this.currentUser = await this.github.getAuthenticatedUser();
+      this.auth = resolved;
+      spinner.succeed(
+        chalk.green(
+          `✓ Authenticated as ${chalk.bold(this.currentUser.login)} ${chalk.gray(`(token from ${describeTokenSource(resolved)})`)}`,
+        ),
+      );
+      return true;
+    } catch (error) {
+      spinner.warn(
+        chalk.yellow(
+          `Token from ${describeTokenSource(resolved)} was rejected: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      this.github = null;
+      return false;
+    }
+  }
+
+  /**
+   * Ask whether to sign in to github.com or an Enterprise Server host
+   */
+  private async chooseHost() {
+    const kind = await select({
+      message: "Where do you want to sign in?",
+      default: isGitHubCom(this.host) ? "github.com" : "enterprise",
+      choices: [
+        { name: "GitHub.com", value: "github.com" },
+        {
+          name: "GitHub Enterprise Server",
+          value: "enterprise",
+          description: "A GitHub instance hosted by your company",
+        },
+      ],
+    });
+
+    if (kind === "github.com") {
+      // Keep URLs overridden by flags or the environment, e.g. a stub server
+      if (!isGitHubCom(this.host)) {
+        this.host = GITHUB_COM;
+      }
+      return;
+    }
+
+    const hostname = await input({
+      message: "Enterprise Server host name:",
+      default: isGitHubCom(this.host) ? undefined : this.host.hostname,
+      validate: (value) => {
+        try {
+          return normalizeHostname(value) === GITHUB_COM.hostname
+            ? "Choose GitHub.com for github.com"
+            : true;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    });
+
+    const name = normalizeHostname(hostname);
+    if (name !== this.host.hostname) {
+      this.host = enterpriseHost(name);
+    }
+  }
+
+  /**
+   * Keep a chosen Enterprise Server host for later runs
+   */
+  private rememberHost() {
+    try {
+      if (!isGitHubCom(this.host) || existsSync(getConfigPath())) {
+        saveHost(this.host);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to save host: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  private async chooseAuthMethod() {
+    await this.chooseHost();
+
     const authMethod = await select({
       message: "How would you like to authenticate?",
       choices: [
@@ -41,22 +377,173 @@ export class SecretManagerCLI {
           description:
             "Authenticate via browser with custom scopes (requires OAuth App setup)",
         },
+        {
+          name: "GitHub App",
+          value: "app",
+          description:
+            "Act as an installation of a GitHub App, not as a person (for automation)",
+        },
       ],
     });
 
     if (authMethod === "token") {
       await this.authenticateWithToken();
-    } else {
+    } else if (authMethod === "oauth") {
       await this.authenticateWithOAuth();
+    } else {
+      await this.authenticateWithApp();
+    }
+  }
+
+  private async authenticateWithApp() {
+    console.log(
+      chalk.dim(
+        `\n💡 Tip: Find the App ID and generate a private key under ${this.host.webUrl}/settings/apps (or your organization's developer settings)\n`,
+      ),
+    );
+    console.log(chalk.yellow("Required app permissions:"));
+    console.log(
+      chalk.yellow("  • Repository: Secrets and Variables (read and write)"),
+    );
+    console.log(
+      chalk.yellow(
+        "  • Organization: Secrets (read and write), if managing organization secrets\n",
+      ),
+    );
+
+    const appId = await input({
+      message: "App ID:",
+      validate: (value) =>
+        /^\d+$/.test(value.trim()) || "The App ID is a number",
+    });
+    const keyPath = await input({
+      message: "Path to the private key (.pem):",
+      validate: (value) => {
+        try {
+          readPrivateKey(value.trim());
+          return true;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    });
+    const installation = await input({
+      message: "Installation ID (leave empty to pick from the installations):",
+      validate: (value) =>
+        value.trim() === "" ||
+        /^\d+$/.test(value.trim()) ||
+        "The installation ID is a number",
+    });
+
+    const app = new GitHubAppAuth(
+      {
+        appId: appId.trim(),
+        privateKey: readPrivateKey(keyPath.trim()),
+        installationId: installation.trim()
+          ? Number(installation.trim())
+          : undefined,
+      },
+      { baseUrl: this.host.apiUrl },
+    );
+
+    let authenticated = false;
+    try {
+      if (app.getInstallationId() === undefined) {
+        await this.chooseInstallation(app);
+      }
+      authenticated = await this.authenticateAsApp(app);
+    } catch (error) {
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+    if (authenticated) {
+      return;
+    }
+
+    const retry = await confirm({
+      message: "Would you like to try again?",
+      default: true,
+    });
+
+    if (retry) {
+      await this.chooseAuthMethod();
+    } else {
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Pick which of the app's installations to act as
+   */
+  private async chooseInstallation(app: GitHubAppAuth) {
+    const spinner = this.startSpinner("Loading installations...");
+    const installations = await app.listInstallations();
+    spinner.stop();
+
+    if (installations.length === 0) {
+      throw new Error("The app isn't installed on any account yet.");
+    }
+    if (installations.length === 1) {
+      app.setInstallation(installations[0].id);
+      return;
+    }
+
+    app.setInstallation(
+      await select({
+        message: "Select an installation:",
+        choices: installations.map((installation) => ({
+          name: `${installation.account?.login ?? "(unknown account)"} ${chalk.gray(`#${installation.id}`)}`,
+          value: installation.id,
+          description:
+            installation.repository_selection === "selected"
+              ? "Selected repositories only"
+              : "All repositories",
+        })),
+      }),
+    );
+  }
+
+  /**
+   * Sign in as a GitHub App installation; returns false if GitHub rejects it
+   */
+  private async authenticateAsApp(app: GitHubAppAuth): Promise<boolean> {
+    const spinner = this.startSpinner("Requesting an installation token...");
+
+    try {
+      this.github = this.createService(app);
+      this.currentUser = await this.github.getAuthenticatedUser();
+      this.auth = null;
+      spinner.succeed(
+        chalk.green(
+          `✓ Authenticated as ${chalk.bold(this.currentUser.login)} ${chalk.gray(`(installation ${app.getInstallationId()})`)}`,
+        ),
+      );
+      return true;
+    } catch (error) {
+      spinner.fail(
+        chalk.red(
+          `GitHub App authentication failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      this.github = null;
+      return false;
     }
   }
 
   private async authenticateWithToken() {
     console.log(
       chalk.dim(
-        "\n💡 Tip: Create a token at https://github.com/settings/tokens\n",
+        `\n💡 Tip: Create a token at ${this.host.webUrl}/settings/tokens\n`,
       ),
     );
+    if (!isGitHubCom(this.host)) {
+      console.log(
+        chalk.dim(
+          `The token must be created on ${this.host.hostname}; github.com tokens don't work there.\n`,
+        ),
+      );
+    }
     console.log(chalk.yellow("Required scopes:"));
     console.log(
       chalk.yellow("  • repo (Full control of private repositories)"),
@@ -66,15 +553,20 @@ export class SecretManagerCLI {
     );
 
     const token = await password({
-      message: "Enter your GitHub Personal Access Token:",
+      message: `Enter your ${this.host.hostname} Personal Access Token:`,
       mask: "*",
     });
 
-    const spinner = ora("Authenticating...").start();
+    const spinner = this.startSpinner("Authenticating...");
 
     try {
-      this.github = new GitHubService(token);
+      this.github = this.createService(token);
       this.currentUser = await this.github.getAuthenticatedUser();
+      this.auth = {
+        token,
+        source: "prompt",
+        detail: "personal access token",
+      };
       spinner.succeed(
         chalk.green(`✓ Authenticated as ${chalk.bold(this.currentUser.login)}`),
       );
@@ -90,7 +582,7 @@ export class SecretManagerCLI {
       });
 
       if (retry) {
-        await this.authenticate();
+        await this.chooseAuthMethod();
       } else {
         process.exit(1);
       }
@@ -100,10 +592,13 @@ export class SecretManagerCLI {
   private async authenticateWithOAuth() {
     console.log(chalk.cyan("\n📱 OAuth Device Flow Authentication\n"));
 
-    let clientId = DEFAULT_OAUTH_CLIENT_ID;
+    const defaultClientId = isGitHubCom(this.host)
+      ? DEFAULT_OAUTH_CLIENT_ID
+      : "";
+    let clientId = defaultClientId;
 
     // Only show setup instructions if no default client ID is configured
-    if (!DEFAULT_OAUTH_CLIENT_ID || DEFAULT_OAUTH_CLIENT_ID.includes("XXX")) {
+    if (!defaultClientId || defaultClientId.includes("XXX")) {
       console.log(chalk.yellow("⚠️  No default OAuth App configured.\n"));
       console.log(chalk.dim("You can either:"));
       console.log(chalk.dim("1. Use your own OAuth App"));
@@ -125,7 +620,7 @@ export class SecretManagerCLI {
         } else {
           console.log(chalk.blue("\n📝 OAuth App Setup Instructions:"));
           console.log(
-            chalk.blue("1. Go to https://github.com/settings/developers"),
+            chalk.blue(`1. Go to ${this.host.webUrl}/settings/developers`),
           );
           console.log(chalk.blue("2. Click 'New OAuth App'"));
           console.log(chalk.blue("3. Fill in the details:"));
@@ -181,16 +676,22 @@ export class SecretManagerCLI {
 
     console.log(chalk.dim(`\nRequesting scopes: ${scopes.join(", ")}\n`));
 
-    const spinner = ora("Initializing OAuth flow...").start();
+    const spinner = this.startSpinner("Initializing OAuth flow...");
+
+    // Ctrl+C stops waiting for the browser instead of exiting
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    process.once("SIGINT", cancel);
 
     try {
       const oauth = new GitHubOAuthDevice({
         clientId,
         scopes,
+        baseUrl: this.host.webUrl,
       });
 
       // Request device code
-      const deviceCode = await oauth.requestDeviceCode();
+      const deviceCode = await oauth.requestDeviceCode(controller.signal);
       spinner.stop();
 
       console.log(chalk.bold.green("\n✓ Device code generated!\n"));
@@ -205,32 +706,47 @@ export class SecretManagerCLI {
       );
 
       // Try to open browser automatically
-      try {
-        await execAsync(`open ${deviceCode.verification_uri}`);
+      if (!this.noBrowser && (await openBrowser(deviceCode.verification_uri))) {
         console.log(chalk.dim("✓ Browser opened automatically\n"));
-      } catch {
-        // Ignore if can't open browser
       }
 
-      spinner.start("Waiting for authorization in browser...");
+      spinner.start(
+        `Waiting for authorization in browser (expires in ${Math.round(deviceCode.expires_in / 60)} min, Ctrl+C to cancel)...`,
+      );
 
       // Poll for token using the device code we already requested
       const tokenData = await oauth.pollForAccessToken(
         deviceCode.device_code,
         deviceCode.interval,
+        { expiresIn: deviceCode.expires_in, signal: controller.signal },
       );
       spinner.stop();
+      process.off("SIGINT", cancel);
 
       // Authenticate with the token
-      this.github = new GitHubService(tokenData.access_token);
+      this.github = this.createService(tokenData.access_token);
       this.currentUser = await this.github.getAuthenticatedUser();
+      this.auth = {
+        token: tokenData.access_token,
+        source: "prompt",
+        detail: "OAuth device flow",
+      };
 
       console.log(
         chalk.bold.green(
           `\n✓ Successfully authenticated as ${chalk.bold(this.currentUser.login)}!\n`,
         ),
       );
+
+      await this.offerToSaveLogin();
     } catch (error) {
+      process.off("SIGINT", cancel);
+      if (error instanceof DeviceFlowAbortedError) {
+        spinner.warn(chalk.yellow("OAuth login cancelled"));
+        await this.chooseAuthMethod();
+        return;
+      }
+
       spinner.fail(chalk.red("OAuth authentication failed"));
       console.error(
         chalk.red(error instanceof Error ? error.message : String(error)),
@@ -242,18 +758,97 @@ export class SecretManagerCLI {
       });
 
       if (retry) {
-        await this.authenticate();
+        await this.chooseAuthMethod();
       } else {
         process.exit(1);
       }
     }
   }
 
+  /**
+   * Offer to keep an OAuth token so the device flow isn't needed next time
+   */
+  private async offerToSaveLogin() {
+    // The login command saves the token itself
+    if (this.isLoggingIn || !this.auth) {
+      return;
+    }
+
+    const save = await confirm({
+      message: "Save this login for future sessions (encrypted on disk)?",
+      default: false,
+    });
+
+    if (!save) {
+      return;
+    }
+
+    try {
+      const path = await saveCredential(
+        this.auth.token,
+        this.currentUser.login,
+        this.host.hostname,
+      );
+      console.log(chalk.green(`✓ Login saved to ${path}\n`));
+      this.rememberHost();
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to save login: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
   private async mainMenu() {
+    if (this.auth) {
+      console.log(
+        chalk.dim(
+          `Signed in as ${this.currentUser.login}${isGitHubCom(this.host) ? "" : ` on ${this.host.hostname}`} · token from ${describeTokenSource(this.auth)}\n`,
+        ),
+      );
+    }
+    if (this.github?.isApp()) {
+      console.log(
+        chalk.dim(
+          `Signed in as ${this.currentUser.login}${isGitHubCom(this.host) ? "" : ` on ${this.host.hostname}`} · GitHub App installation\n`,
+        ),
+      );
+    }
+    if (this.dryRun) {
+      console.log(
+        chalk.cyan("Dry run is on: changes are printed, not sent to GitHub.\n"),
+      );
+    }
+
+    const remotes = listRemoteRepositories(process.cwd(), this.host.hostname);
+    if (remotes.length > 0) {
+      const [current] = remotes;
+      const jump = await confirm({
+        message: `Manage ${current.owner}/${current.repo} (git remote ${current.remote})?`,
+        default: true,
+      });
+      if (jump) {
+        await this.manageRepoSecrets(current.owner, current.repo);
+      }
+    }
+
     while (true) {
       const action = await select({
         message: "What would you like to do?",
         choices: [
+          ...(remotes.length > 0
+            ? [
+                {
+                  name: `This Repository (${remotes[0].owner}/${remotes[0].repo})`,
+                  value: "current",
+                  description:
+                    remotes.length > 1
+                      ? "The repository of a git remote in the current directory"
+                      : `The repository of git remote ${remotes[0].remote}`,
+                },
+              ]
+            : []),
           {
             name: "Manage Personal Repositories",
             value: "personal",
@@ -264,6 +859,29 @@ export class SecretManagerCLI {
             value: "organization",
             description: "Manage secrets for organization repositories",
           },
+          {
+            name: "Apply Secrets to Multiple Repositories",
+            value: "fanout",
+            description:
+              "Write one secret or a whole file to many repositories at once",
+          },
+          {
+            name: "Secret Staleness Report",
+            value: "staleness",
+            description:
+              "Find secrets that weren't rotated within a maximum age",
+          },
+          {
+            name: "Manage Codespaces User Secrets",
+            value: "codespaces",
+            description: "Personal secrets available in your codespaces",
+          },
+          {
+            name: `Dry Run: ${this.dryRun ? "On" : "Off"}`,
+            value: "dry-run",
+            description:
+              "Print the changes that would be made instead of making them",
+          },
           {
             name: "Exit",
             value: "exit",
@@ -276,16 +894,52 @@ export class SecretManagerCLI {
         process.exit(0);
       }
 
-      if (action === "personal") {
+      if (action === "current") {
+        await this.manageRemoteRepository(remotes);
+      } else if (action === "personal") {
         await this.managePersonalRepos();
       } else if (action === "organization") {
         await this.manageOrganizationRepos();
+      } else if (action === "fanout") {
+        await this.applyToMultipleRepos();
+      } else if (action === "staleness") {
+        await this.showStalenessReport();
+      } else if (action === "codespaces") {
+        await this.manageCodespacesUserSecrets();
+      } else if (action === "dry-run") {
+        this.dryRun = !this.dryRun;
+        this.github!.setDryRun(this.dryRun);
+        console.log(
+          this.dryRun
+            ? chalk.cyan(
+                "\nDry run is on: changes are printed, not sent to GitHub.\n",
+              )
+            : chalk.green("\nDry run is off: changes are sent to GitHub.\n"),
+        );
       }
     }
   }
 
+  /**
+   * Manage the repository of a git remote, asking which remote when the
+   * checkout has several that point at GitHub
+   */
+  private async manageRemoteRepository(remotes: RemoteRepository[]) {
+    const remote =
+      remotes.length === 1
+        ? remotes[0]
+        : await select({
+            message: "Which remote?",
+            choices: remotes.map((r) => ({
+              name: `${r.remote} ${chalk.gray(`(${r.owner}/${r.repo})`)}`,
+              value: r,
+            })),
+          });
+    await this.manageRepoSecrets(remote.owner, remote.repo);
+  }
+
   private async managePersonalRepos() {
-    const spinner = ora("Loading repositories...").start();
+    const spinner = this.startSpinner("Loading repositories...");
 
     try {
       const repos = await this.github!.listUserRepositories();
@@ -308,78 +962,1844 @@ export class SecretManagerCLI {
     }
   }
 
-  private async manageOrganizationRepos() {
-    const spinner = ora("Loading organizations...").start();
+  /**
+   * Write the same secrets to many repositories and show a
+   * repository × secret result matrix
+   */
+  private async applyToMultipleRepos() {
+    const spinner = this.startSpinner("Loading repositories...");
 
     try {
-      const orgs = await this.github!.listOrganizations();
+      const repos = await this.github!.listUserRepositories();
       spinner.stop();
 
-      if (orgs.length === 0) {
-        console.log(chalk.yellow("No organizations found."));
+      const selected = await this.selectMultipleRepositories(repos);
+      if (selected.length === 0) {
+        console.log(chalk.yellow("No repositories selected."));
         return;
       }
 
-      const org = await select({
-        message: "Select an organization:",
-        choices: orgs.map((o) => ({
-          name: `${o.login}${o.description ? ` - ${o.description}` : ""}`,
-          value: o.login,
+      console.log(chalk.cyan(`\n✓ ${selected.length} repositories selected:`));
+      selected.forEach((name) => console.log(chalk.cyan(`  • ${name}`)));
+
+      const kind = await select<SecretKind>({
+        message: "Secret store:",
+        choices: SECRET_KINDS.map((k) => ({
+          name: SECRET_KIND_LABELS[k],
+          value: k,
         })),
       });
 
-      spinner.start("Loading repositories...");
-      const repos = await this.github!.listOrgRepositories(org);
-      spinner.stop();
+      const source = await select({
+        message: "What should be written?",
+        choices: [
+          {
+            name: "A single secret",
+            value: "single",
+            description: "Enter one name and value",
+          },
+          {
+            name: "All secrets from a file",
+            value: "file",
+            description: "A .env, JSON, YAML or Kubernetes Secret file",
+          },
+        ],
+      });
 
-      if (repos.length === 0) {
-        console.log(
-          chalk.yellow("No repositories found in this organization."),
+      let secrets: Record<string, string>;
+      if (source === "single") {
+        const name = await this.promptSecretName();
+        const value = await password({
+          message: "Secret value:",
+          mask: "*",
+        });
+        secrets = { [name]: value };
+      } else {
+        const filePath = await input({
+          message: "Path to .env, JSON, YAML or Kubernetes Secret file:",
+          default: ".env",
+        });
+        const entries = await this.loadEnvFile(filePath);
+        if (!entries) {
+          return;
+        }
+
+        const { valid, invalid } = filterValidSecrets(entries);
+        invalid.forEach((name) =>
+          console.log(chalk.yellow(`⚠ Skipping invalid secret name: ${name}`)),
         );
+        secrets = valid;
+      }
+
+      const names = Object.keys(secrets);
+      if (names.length === 0) {
+        console.log(chalk.red("\nNo valid secrets to write."));
         return;
       }
 
-      const repo = await this.selectRepository(repos);
-      if (repo) {
-        await this.manageRepoSecrets(org, repo.name);
+      const confirmWrite = await confirm({
+        message: `Write ${names.length} ${SECRET_KIND_LABELS[kind]} secret(s) to ${selected.length} repositories?`,
+        default: false,
+      });
+
+      if (!confirmWrite) {
+        console.log(chalk.gray("Cancelled."));
+        return;
       }
+
+      // Resolve references once so every repository gets the same value
+      secrets = resolveAllReferences(secrets);
+
+      spinner.start("Writing secrets...");
+      const results = await fanOutSecrets(this.github!, selected, secrets, {
+        kind,
+        onRepository: (repository, index) => {
+          spinner.prefixText = chalk.gray(
+            `[${index + 1}/${selected.length}] ${repository}`,
+          );
+        },
+        ...this.progressReporter(spinner, "written"),
+      });
+      spinner.prefixText = "";
+      spinner.stop();
+
+      console.log();
+      formatFanOutMatrix(results, names).forEach((line) => console.log(line));
+
+      const { succeeded, partial, failed } = summarizeFanOut(results);
+      console.log(
+        `\n${chalk.green(`${succeeded} succeeded`)}, ${chalk.yellow(`${partial} partly failed`)}, ${chalk.red(`${failed} failed`)}`,
+      );
     } catch (error) {
-      spinner.fail(chalk.red("Failed to load organizations"));
+      if (spinner.isSpinning) {
+        spinner.fail(chalk.red("Failed"));
+      }
       console.error(
         chalk.red(error instanceof Error ? error.message : String(error)),
       );
     }
   }
 
-  private async selectRepository(
+  /**
+   * Pick several repositories by checkbox, name glob, topic or a file
+   * of `owner/repo` names. Returns full names.
+   */
+  private async selectMultipleRepositories(
     repos: Repository[],
-  ): Promise<Repository | null> {
-    const repoName = await select({
-      message: "Select a repository:",
+  ): Promise<string[]> {
+    const candidates = filterRepositories(repos, this.repositoryFilters);
+
+    const method = await select({
+      message: "How do you want to pick repositories?",
       choices: [
-        ...repos.map((r) => ({
-          name: `${r.name} ${r.private ? chalk.yellow("(private)") : chalk.green("(public)")}`,
-          value: r.full_name,
-          description: r.full_name,
-        })),
         {
-          name: chalk.gray("← Back"),
-          value: "back",
+          name: "Tick them in a list",
+          value: "checkbox",
+          description: `Choose from ${candidates.length} repositories (${describeFilters(this.repositoryFilters)})`,
+        },
+        {
+          name: "By name pattern",
+          value: "glob",
+          description: "e.g. my-org/service-*, *-api",
+        },
+        {
+          name: "By topic",
+          value: "topic",
+          description: "Repositories tagged with a GitHub topic",
+        },
+        {
+          name: "From a list file",
+          value: "file",
+          description: "One owner/repo per line",
         },
       ],
-      pageSize: 15,
     });
 
-    if (repoName === "back") {
-      return null;
-    }
-
-    return repos.find((r) => r.full_name === repoName) || null;
-  }
-
+    switch (method) {
+      case "checkbox":
+        return checkbox({
+          message: "Select repositories:",
+          choices: candidates.map((r) => ({
+            name: `${r.full_name} ${this.visibilityLabel(r)}`,
+            value: r.full_name,
+          })),
+          pageSize: 15,
+        });
+      case "glob": {
+        const patterns = await input({
+          message: "Repository name patterns (comma-separated, * wildcard):",
+        });
+        return selectByGlob(candidates, parseGlobList(patterns)).map(
+          (r) => r.full_name,
+        );
+      }
+      case "topic": {
+        const topic = await input({ message: "Topic:" });
+        return selectByTopic(candidates, topic.trim()).map((r) => r.full_name);
+      }
+      default: {
+        const filePath = await input({ message: "Path to repository list:" });
+        return readRepositoryList(filePath);
+      }
+    }
+  }
+
+  private async manageOrganizationRepos() {
+    const spinner = this.startSpinner("Loading organizations...");
+
+    try {
+      const orgs = await this.github!.listOrganizations();
+      spinner.stop();
+
+      if (orgs.length === 0) {
+        console.log(chalk.yellow("No organizations found."));
+        return;
+      }
+
+      const org = await select({
+        message: "Select an organization:",
+        choices: orgs.map((o) => ({
+          name: `${o.login}${o.description ? ` - ${o.description}` : ""}`,
+          value: o.login,
+        })),
+      });
+
+      const scope = await select({
+        message: `What would you like to manage in ${org}?`,
+        choices: [
+          {
+            name: "Manage organization repositories",
+            value: "repos",
+            description: "Pick a repository and manage its secrets",
+          },
+          {
+            name: "Manage organization secrets",
+            value: "secrets",
+            description:
+              "Secrets shared with repositories in this organization",
+          },
+          {
+            name: chalk.gray("← Back"),
+            value: "back",
+          },
+        ],
+      });
+
+      if (scope === "back") {
+        return;
+      }
+
+      if (scope === "secrets") {
+        await this.manageOrgSecrets(org);
+        return;
+      }
+
+      spinner.start("Loading repositories...");
+      const repos = await this.github!.listOrgRepositories(org);
+      spinner.stop();
+
+      if (repos.length === 0) {
+        console.log(
+          chalk.yellow("No repositories found in this organization."),
+        );
+        return;
+      }
+
+      const repo = await this.selectRepository(repos);
+      if (repo) {
+        await this.manageRepoSecrets(org, repo.name);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load organizations"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async selectRepository(
+    repos: Repository[],
+  ): Promise<Repository | null> {
+    while (true) {
+      const repoName = await search<string>({
+        message: `Select a repository (type to search ${repos.length}):`,
+        source: (term) => {
+          const matches = filterRepositories(
+            repos,
+            this.repositoryFilters,
+            term,
+          );
+
+          return [
+            {
+              name: chalk.cyan(
+                `⚙ Filters: ${describeFilters(this.repositoryFilters)} (${matches.length} shown)`,
+              ),
+              value: "filters",
+              description:
+                "Filter by archived, fork, visibility or admin access",
+            },
+            ...matches.map((r) => ({
+              name: `${r.name} ${this.visibilityLabel(r)}${r.archived ? chalk.gray(" (archived)") : ""}`,
+              value: r.full_name,
+              description: r.description || r.full_name,
+            })),
+            {
+              name: chalk.gray("← Back"),
+              value: "back",
+            },
+          ];
+        },
+        pageSize: 15,
+      });
+
+      if (repoName === "back") {
+        return null;
+      }
+
+      if (repoName === "filters") {
+        await this.editRepositoryFilters();
+        continue;
+      }
+
+      return repos.find((r) => r.full_name === repoName) || null;
+    }
+  }
+
+  private visibilityLabel(repo: Repository): string {
+    if (repo.visibility === "internal") return chalk.blue("(internal)");
+    return repo.private ? chalk.yellow("(private)") : chalk.green("(public)");
+  }
+
+  private async editRepositoryFilters() {
+    const current = this.repositoryFilters;
+
+    const visibility = await select<RepositoryVisibility>({
+      message: "Show repositories with visibility:",
+      default: current.visibility,
+      choices: [
+        { name: "Any", value: "all" },
+        { name: "Public", value: "public" },
+        { name: "Private", value: "private" },
+        { name: "Internal", value: "internal" },
+      ],
+    });
+
+    const options = await checkbox({
+      message: "Repository filters:",
+      choices: [
+        {
+          name: "Include archived repositories",
+          value: "archived",
+          checked: current.includeArchived,
+        },
+        {
+          name: "Include forks",
+          value: "forks",
+          checked: current.includeForks,
+        },
+        {
+          name: "Only repositories where I have admin access",
+          value: "admin",
+          checked: current.adminOnly,
+        },
+      ],
+    });
+
+    this.repositoryFilters = {
+      visibility,
+      includeArchived: options.includes("archived"),
+      includeForks: options.includes("forks"),
+      adminOnly: options.includes("admin"),
+    };
+  }
+
   private async manageRepoSecrets(owner: string, repo: string) {
+    let target: SecretTarget = { owner, repo };
+
+    while (true) {
+      const kind = target.kind ?? "actions";
+
+      console.log(chalk.bold.cyan(`\n📦 Repository: ${owner}/${repo}`));
+      console.log(
+        chalk.cyan(
+          `🎯 Target: ${SECRET_KIND_LABELS[kind]} · ${target.environment ? `environment "${target.environment}"` : "repository"}\n`,
+        ),
+      );
+
+      const actionsChoices = [
+        {
+          name: "Analyze Workflows",
+          value: "analyze",
+          description:
+            "Find secrets the workflows use but nobody set, and secrets nothing uses",
+        },
+        {
+          name: "List Variables",
+          value: "list-variables",
+          description: "View configuration variables and their values",
+        },
+        {
+          name: "Add/Update Variable",
+          value: "add-variable",
+          description: "Create or update a configuration variable",
+        },
+        {
+          name: "Delete Variable",
+          value: "delete-variable",
+          description: "Remove a configuration variable",
+        },
+      ];
+
+      const action = await select({
+        message: "Choose an action:",
+        choices: [
+          {
+            name: "List Secrets",
+            value: "list",
+            description: "View all secrets in the current target",
+          },
+          {
+            name: "Add/Update Single Secret",
+            value: "add",
+            description: "Create or update a single secret",
+          },
+          {
+            name: "Rotate / Generate Secret",
+            value: "rotate",
+            description:
+              "Write a new random value here and, optionally, to other targets",
+          },
+          {
+            name: "Upload Secrets from .env File",
+            value: "upload",
+            description: "Batch upload secrets from a .env file",
+          },
+          {
+            name: "Sync with .env File",
+            value: "sync",
+            description:
+              "Compare a .env file with the current target and apply the differences",
+          },
+          {
+            name: "Delete Secret",
+            value: "delete",
+            description: "Remove a secret from the current target",
+          },
+          // Configuration variables and workflows only exist for GitHub Actions
+          ...(kind === "actions" ? actionsChoices : []),
+          {
+            name: "Change Target",
+            value: "target",
+            description:
+              "Switch between Actions, Dependabot and Codespaces, or an environment",
+          },
+          {
+            name: chalk.gray("← Back to Repository Selection"),
+            value: "back",
+          },
+        ],
+      });
+
+      if (action === "back") {
+        break;
+      }
+
+      switch (action) {
+        case "list":
+          await this.listSecrets(target);
+          break;
+        case "add":
+          await this.addSingleSecret(target);
+          break;
+        case "rotate":
+          await this.rotateSecret(target);
+          break;
+        case "upload":
+          await this.uploadSecretsFromFile(target);
+          break;
+        case "sync":
+          await this.syncSecretsWithFile(target);
+          break;
+        case "delete":
+          await this.deleteSecret(target);
+          break;
+        case "list-variables":
+          await this.listVariables(target);
+          break;
+        case "add-variable":
+          await this.addVariable(target);
+          break;
+        case "delete-variable":
+          await this.deleteVariable(target);
+          break;
+        case "analyze":
+          await this.analyzeWorkflows(owner, repo);
+          break;
+        case "target":
+          target = await this.selectSecretTarget(owner, repo, target);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Choose the secret store (Actions, Dependabot or Codespaces) and,
+   * for Actions, the repository or one of its deployment environments
+   */
+  private async selectSecretTarget(
+    owner: string,
+    repo: string,
+    current: SecretTarget,
+  ): Promise<SecretTarget> {
+    const kind = await select<SecretKind>({
+      message: "Which secrets should be managed?",
+      default: current.kind ?? "actions",
+      choices: [
+        {
+          name: SECRET_KIND_LABELS.actions,
+          value: "actions",
+          description: "Secrets available to workflow runs",
+        },
+        {
+          name: SECRET_KIND_LABELS.dependabot,
+          value: "dependabot",
+          description: "Secrets Dependabot uses, e.g. private registry tokens",
+        },
+        {
+          name: SECRET_KIND_LABELS.codespaces,
+          value: "codespaces",
+          description: "Secrets available in codespaces for this repository",
+        },
+      ],
+    });
+
+    if (kind !== "actions") {
+      return { owner, repo, kind };
+    }
+
+    const spinner = this.startSpinner("Loading environments...");
+
+    try {
+      const environments = await this.github!.listEnvironments(owner, repo);
+      spinner.stop();
+
+      if (environments.length === 0) {
+        console.log(
+          chalk.yellow("No deployment environments found in this repository."),
+        );
+      }
+
+      const environment = await select({
+        message: "Where should secrets be managed?",
+        default: current.environment ?? "",
+        choices: [
+          {
+            name: "Repository",
+            value: "",
+            description: "Secrets available to every workflow job",
+          },
+          ...environments.map((env) => ({
+            name: `Environment: ${env.name}`,
+            value: env.name,
+            description:
+              "Secrets only available to jobs using this environment",
+          })),
+        ],
+      });
+
+      return environment ? { owner, repo, environment } : { owner, repo };
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load environments"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+      return { owner, repo };
+    }
+  }
+
+  private async listSecrets(target: SecretTarget) {
+    const spinner = this.startSpinner("Loading secrets...");
+
+    try {
+      const secrets = await this.github!.listSecrets(target);
+      spinner.stop();
+
+      if (secrets.length === 0) {
+        console.log(
+          chalk.yellow(`\nNo secrets found in ${formatTarget(target)}.`),
+        );
+      } else {
+        console.log(chalk.bold.green(`\nFound ${secrets.length} secret(s):\n`));
+        secrets.forEach((secret: Secret) => {
+          console.log(
+            `  ${chalk.cyan("•")} ${chalk.bold(secret.name)} ${this.formatSecretAge(secret.updated_at)}`,
+          );
+        });
+      }
+      console.log();
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load secrets"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  /**
+   * When a secret was updated, in red once it's older than the default
+   * maximum age of the staleness report
+   */
+  private formatSecretAge(updatedAt: string): string {
+    const days = Math.floor(
+      (Date.now() - Date.parse(updatedAt)) / (24 * 60 * 60 * 1000),
+    );
+    const label = `(updated: ${new Date(updatedAt).toLocaleDateString()}, ${days} days ago)`;
+    return days > DEFAULT_MAX_AGE_DAYS ? chalk.red(label) : chalk.gray(label);
+  }
+
+  /**
+   * Walk the user's or an organization's repositories and list the
+   * secrets older than a maximum age, optionally exporting them
+   */
+  private async showStalenessReport() {
+    try {
+      const orgs = await this.github!.listOrganizations().catch(() => []);
+      const scope = await select({
+        message: "Which repositories?",
+        choices: [
+          { name: "My repositories", value: "" },
+          ...orgs.map((o) => ({
+            name: `Organization: ${o.login}`,
+            value: o.login,
+          })),
+        ],
+      });
+      const maxAgeDays = parseMaxAge(
+        await input({
+          message: "Flag secrets older than (days):",
+          default: String(DEFAULT_MAX_AGE_DAYS),
+          validate: (value) =>
+            parseMaxAge(value) !== null ||
+            "Enter a number of days such as 90, or weeks such as 12w",
+        }),
+      )!;
+      const sort = await select<StalenessSort>({
+        message: "Sort by:",
+        choices: [
+          { name: "Age, oldest first", value: "age" },
+          { name: "Secret name", value: "name" },
+          { name: "Repository", value: "repo" },
+        ],
+      });
+
+      const spinner = this.startSpinner("Loading repositories...");
+      const repos = filterRepositories(
+        scope
+          ? await this.github!.listOrgRepositories(scope)
+          : await this.github!.listUserRepositories(),
+        this.repositoryFilters,
+      );
+      const report = await collectSecretAges(
+        this.github!,
+        repos.map((r) => r.full_name),
+        {
+          maxAgeDays,
+          onProgress: (done, total) => {
+            spinner.text = `Checking secrets... ${done}/${total} repositories`;
+          },
+        },
+      );
+      spinner.stop();
+
+      report.failed.forEach(({ repository, error }) =>
+        console.log(chalk.yellow(`⚠ Skipped ${repository}: ${error}`)),
+      );
+
+      const stale = sortSecretAges(
+        report.secrets.filter((secret) => secret.stale),
+        sort,
+      );
+      if (stale.length === 0) {
+        console.log(
+          chalk.green(
+            `\n✓ All ${report.secrets.length} secrets in ${repos.length} repositories were updated in the last ${maxAgeDays} days.\n`,
+          ),
+        );
+        return;
+      }
+
+      console.log();
+      formatStalenessTable(stale).forEach((line) => console.log(`  ${line}`));
+      console.log(
+        chalk.red(
+          `\n${stale.length} of ${report.secrets.length} secrets in ${repos.length} repositories are older than ${maxAgeDays} days.\n`,
+        ),
+      );
+
+      const format = await select({
+        message: "Export the report?",
+        choices: [
+          { name: "No", value: "" },
+          { name: "As CSV", value: "csv" },
+          { name: "As JSON", value: "json" },
+        ],
+      });
+      if (!format) {
+        return;
+      }
+
+      const path = await input({
+        message: "File to write:",
+        default: `stale-secrets.${format}`,
+      });
+      writeFileSync(
+        path,
+        format === "csv"
+          ? `${formatStalenessCsv(stale)}\n`
+          : `${JSON.stringify(stale, null, 2)}\n`,
+      );
+      console.log(chalk.green(`✓ Wrote ${stale.length} secrets to ${path}\n`));
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to build the staleness report: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Cross-check the secrets the workflows reference with the secrets
+   * the repository, its organization and its environments provide
+   */
+  private async analyzeWorkflows(owner: string, repo: string) {
+    const local = readLocalWorkflows();
+    const source =
+      local.length > 0
+        ? await select({
+            message: "Which workflows should be analyzed?",
+            choices: [
+              {
+                name: "On GitHub",
+                value: "github",
+                description: "The default branch of the repository",
+              },
+              {
+                name: "In this checkout",
+                value: "local",
+                description: `${local.length} workflow file(s) in ${process.cwd()}`,
+              },
+            ],
+          })
+        : "github";
+
+    const spinner = this.startSpinner("Reading workflows and secrets...");
+
+    try {
+      const github = this.github!;
+      const workflows =
+        source === "local"
+          ? local
+          : await github.listWorkflowFiles(owner, repo);
+      const [repository, organization, environments] = await Promise.all([
+        github.listRepoSecrets(owner, repo),
+        // Personal repositories have no organization secrets
+        github.listRepoOrganizationSecrets(owner, repo).catch(() => []),
+        github
+          .listEnvironments(owner, repo)
+          .then((envs) =>
+            Promise.all(
+              envs.map((env) =>
+                github.listEnvironmentSecrets(owner, repo, env.name),
+              ),
+            ),
+          ),
+      ]);
+      spinner.stop();
+
+      if (workflows.length === 0) {
+        console.log(chalk.yellow("\nNo workflow files found.\n"));
+        return;
+      }
+
+      const scan = scanWorkflows(workflows);
+      const report = analyzeSecretUsage(scan, {
+        repository: repository.map((s) => s.name),
+        organization: organization.map((s) => s.name),
+        environments: environments.flat().map((s) => s.name),
+      });
+
+      console.log(
+        chalk.bold(
+          `\nAnalyzed ${workflows.length} workflow file(s) of ${owner}/${repo}:\n`,
+        ),
+      );
+
+      const section = (
+        title: string,
+        names: string[],
+        color: (text: string) => string,
+        files = false,
+      ) => {
+        if (names.length === 0) return;
+        console.log(color(`${title} (${names.length}):`));
+        names.forEach((name) => {
+          const usedIn = files
+            ? chalk.gray(` - ${scan.references.get(name)!.join(", ")}`)
+            : "";
+          console.log(`  ${color("•")} ${chalk.bold(name)}${usedIn}`);
+        });
+        console.log();
+      };
+
+      section(
+        "Missing - referenced but not set",
+        report.missing,
+        chalk.red,
+        true,
+      );
+      section("Unused repository secrets", report.unused, chalk.yellow);
+      section("Set on the repository", report.fromRepository, chalk.green);
+      section(
+        "Provided by the organization",
+        report.fromOrganization,
+        chalk.green,
+      );
+      section("Set on an environment", report.fromEnvironment, chalk.green);
+      section(
+        "Passed in by calling workflows",
+        report.passedByCaller,
+        chalk.cyan,
+        true,
+      );
+
+      if (scan.usesAllSecrets.length > 0) {
+        console.log(
+          chalk.yellow(
+            `⚠ ${scan.usesAllSecrets.join(", ")} pass all secrets along (toJSON(secrets) or secrets: inherit), so "unused" may be wrong.`,
+          ),
+        );
+      }
+      scan.errors.forEach(({ file, error }) =>
+        console.log(chalk.yellow(`⚠ Skipped ${file}: ${error}`)),
+      );
+      if (report.missing.length === 0 && report.unused.length === 0) {
+        console.log(chalk.green("✓ Every referenced secret is set and used."));
+      }
+      console.log();
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to analyze workflows"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async promptSecretName(message = "Secret name:"): Promise<string> {
+    return input({
+      message,
+      validate: (value) => {
+        if (!value) return "Name is required";
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) {
+          return "Invalid name. Use only letters, numbers, and underscores. Cannot start with a number.";
+        }
+        if (value.startsWith("GITHUB_")) {
+          return "Names cannot start with GITHUB_";
+        }
+        return true;
+      },
+    });
+  }
+
+  private async addSingleSecret(target: SecretTarget) {
+    try {
+      const name = await this.promptSecretName();
+
+      const source = await select({
+        message: "Where does the value come from?",
+        choices: [
+          {
+            name: "Type or paste it",
+            value: "typed",
+            description:
+              "Or enter a reference such as @file:, @cmd:, @env:, @pass: or @sops:",
+          },
+          {
+            name: "Read it from a file",
+            value: "file",
+            description:
+              "Text files as is; binary files such as .p12 or keystores base64-encoded",
+          },
+        ],
+      });
+
+      const value =
+        source === "typed"
+          ? await password({
+              message: "Secret value:",
+              mask: "*",
+            })
+          : await this.readValueFromFile(name);
+
+      if (value === null || !(await this.checkLint({ [name]: value }))) {
+        return;
+      }
+
+      const spinner = this.startSpinner(
+        isValueReference(value)
+          ? `Reading ${value} and creating/updating secret ${name}...`
+          : `Creating/updating secret ${name}...`,
+      );
+
+      await this.github!.createOrUpdateSecret(target, name, value);
+      spinner.succeed(
+        chalk.green(`✓ Secret "${name}" created/updated successfully`),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to create secret: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      if (error instanceof SecretTooLargeError) {
+        console.log(chalk.gray(`\n${LARGE_SECRET_TIP}`));
+      }
+    }
+  }
+
+  /**
+   * Generate a random value and write it to this target and, if chosen,
+   * other environments and repositories
+   */
+  private async rotateSecret(target: SecretTarget) {
+    try {
+      const name = await this.promptSecretName();
+
+      const format = await select<SecretFormat>({
+        message: "Value format:",
+        choices: [
+          {
+            name: "Hex",
+            value: "hex",
+            description: "0-9 and a-f, e.g. for HMAC signing keys",
+          },
+          { name: "Base64", value: "base64" },
+          {
+            name: "URL-safe base64",
+            value: "base64url",
+            description: "Without + / or =, safe in URLs and headers",
+          },
+          {
+            name: "Passphrase",
+            value: "passphrase",
+            description: "Pronounceable words joined by dashes",
+          },
+        ],
+      });
+      const length = Number(
+        await input({
+          message:
+            format === "passphrase" ? "Number of words:" : "Random bytes:",
+          default: String(DEFAULT_LENGTHS[format]),
+          validate: (value) => {
+            const n = Number(value);
+            return (
+              (Number.isInteger(n) && n >= 1 && n <= MAX_LENGTH) ||
+              `Enter a whole number from 1 to ${MAX_LENGTH}`
+            );
+          },
+        }),
+      );
+
+      const targets = await this.selectRotationTargets(target);
+      if (targets.length === 0) {
+        console.log(chalk.yellow("No targets selected."));
+        return;
+      }
+
+      const output = await select({
+        message:
+          "Besides storing it on GitHub, what should happen with the value?",
+        choices: [
+          { name: "Nothing", value: "none" },
+          {
+            name: "Show it once",
+            value: "print",
+            description: "GitHub never shows a secret's value again",
+          },
+          {
+            name: "Pipe it to a command",
+            value: "pipe",
+            description: "e.g. to update the service that checks it",
+          },
+        ],
+      });
+      const command =
+        output === "pipe"
+          ? await input({
+              message: "Command (gets the value on stdin):",
+              validate: (value) => value.trim() !== "" || "Enter a command",
+            })
+          : "";
+
+      targets.forEach((t) => console.log(chalk.gray(`  ${formatTarget(t)}`)));
+      const proceed = await confirm({
+        message: `Replace ${name} on these ${targets.length} target(s) with a new value (${describeFormat(format, length)})?`,
+        default: false,
+      });
+      if (!proceed) {
+        return;
+      }
+
+      const { value, entropyBits } = await generateSecretValue(format, length);
+      const spinner = this.startSpinner(`Writing ${name}...`);
+      const result = await rollOutSecret(this.github!, targets, name, value, {
+        onProgress: (done, total) => {
+          spinner.text = `Writing ${name}... ${done}/${total}`;
+        },
+      });
+      spinner.stop();
+
+      result.success.forEach((label) => console.log(chalk.green(`✓ ${label}`)));
+      result.failed.forEach(({ name: label, error }) =>
+        console.log(chalk.red(`✗ ${label}: ${error}`)),
+      );
+      console.log(
+        chalk.gray(`${describeFormat(format, length)}, ${entropyBits} bits`),
+      );
+
+      if (output === "print") {
+        console.log(`\n${chalk.bold(value)}\n`);
+        console.log(chalk.gray("This is the only time the value is shown.\n"));
+      }
+
+      if (output === "pipe") {
+        if (result.failed.length > 0) {
+          console.log(
+            chalk.yellow(
+              `⚠ Not piping: ${name} wasn't written everywhere. Rotate it again.`,
+            ),
+          );
+        } else if (this.github!.isDryRun()) {
+          console.log(chalk.cyan(`[dry run] not piped to ${command}`));
+        } else {
+          try {
+            pipeToCommand(command, value);
+            console.log(chalk.green(`✓ Passed the new value to ${command}`));
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `✗ ${error instanceof Error ? error.message : String(error)}. ${name} was already changed on GitHub; update the consumer by hand or rotate again.`,
+              ),
+            );
+          }
+        }
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to rotate secret: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * The current target plus any other environments of the repository
+   * and other repositories the user ticks
+   */
+  private async selectRotationTargets(
+    target: SecretTarget,
+  ): Promise<SecretTarget[]> {
+    const { owner, repo, kind } = target;
+    let targets: SecretTarget[] = [target];
+
+    if ((kind ?? "actions") === "actions") {
+      const spinner = this.startSpinner("Loading environments...");
+      const environments = await this.github!.listEnvironments(owner, repo);
+      spinner.stop();
+
+      if (environments.length > 0) {
+        const selected = await checkbox({
+          message: `Where in ${owner}/${repo}?`,
+          choices: [
+            {
+              name: "Repository",
+              value: "",
+              checked: !target.environment,
+            },
+            ...environments.map((env) => ({
+              name: `Environment: ${env.name}`,
+              value: env.name,
+              checked: env.name === target.environment,
+            })),
+          ],
+        });
+        targets = selected.map((environment) =>
+          environment ? { owner, repo, environment } : { owner, repo },
+        );
+      }
+    }
+
+    const more = await confirm({
+      message: "Also write it to other repositories?",
+      default: false,
+    });
+    if (more) {
+      const spinner = this.startSpinner("Loading repositories...");
+      const repos = await this.github!.listUserRepositories();
+      spinner.stop();
+
+      for (const fullName of await this.selectMultipleRepositories(repos)) {
+        const [otherOwner, otherRepo] = fullName.split("/");
+        if (fullName !== `${owner}/${repo}`) {
+          targets.push({ owner: otherOwner, repo: otherRepo, kind });
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Print lint findings for secrets about to be uploaded. Returns false
+   * when they block the upload, or when the user stops a single secret
+   * with warnings.
+   */
+  private async checkLint(
+    secrets: Record<string, string>,
+    findings = lintSecrets(secrets),
+  ): Promise<boolean> {
+    if (findings.length === 0) {
+      return true;
+    }
+
+    console.log(chalk.bold("\nBefore uploading:"));
+    findings.forEach((finding) =>
+      console.log(`  ${formatLintFinding(finding)}`),
+    );
+    console.log();
+
+    if (isBlocking(findings, this.strict)) {
+      console.log(chalk.red(`${formatBlockedMessage(findings, "restart")}\n`));
+      if (findings.some((finding) => finding.rule === "too-large")) {
+        console.log(chalk.gray(`${LARGE_SECRET_TIP}\n`));
+      }
+      return false;
+    }
+
+    // An upload of many secrets is confirmed after its summary anyway
+    return (
+      Object.keys(secrets).length > 1 ||
+      confirm({ message: "Upload it anyway?", default: false })
+    );
+  }
+
+  /**
+   * Read a secret value from a file, base64-encoding binary content.
+   * Returns null when the file is too large for GitHub.
+   */
+  private async readValueFromFile(name: string): Promise<string | null> {
+    const path = await input({
+      message: "Path to the file:",
+      validate: (value) => existsSync(value) || "File not found",
+    });
+
+    const base64 = await confirm({
+      message: "Base64-encode the content?",
+      default: looksBinary(path),
+    });
+
+    const { value, fileBytes, valueBytes } = readSecretFile(path, base64);
+    console.log(
+      chalk.cyan(
+        base64
+          ? `${path}: ${formatBytes(fileBytes)}, ${formatBytes(valueBytes)} base64-encoded`
+          : `${path}: ${formatBytes(fileBytes)}`,
+      ),
+    );
+
+    if (valueBytes > MAX_SECRET_BYTES) {
+      console.log(
+        chalk.red(
+          `✗ ${formatBytes(valueBytes)} is over GitHub's ${formatBytes(MAX_SECRET_BYTES)} limit for secrets.`,
+        ),
+      );
+      console.log(chalk.gray(`\n${LARGE_SECRET_TIP}`));
+      return null;
+    }
+
+    if (base64) {
+      console.log(
+        chalk.gray(
+          `Decode it in a workflow with: echo "$${name}" | base64 --decode > ${basename(path)}`,
+        ),
+      );
+    }
+
+    // File content is always literal, even if it starts with @file: etc.
+    return escapeValue(value);
+  }
+
+  private async uploadSecretsFromFile(target: SecretTarget) {
+    try {
+      const filePath = await input({
+        message: "Path to .env, JSON, YAML or Kubernetes Secret file:",
+        default: target.environment ? `.env.${target.environment}` : ".env",
+      });
+
+      const secrets = await this.loadEnvFile(filePath);
+      if (!secrets) {
+        return;
+      }
+
+      if (Object.keys(secrets).length === 0) {
+        console.log(chalk.yellow("No secrets found in the file."));
+        return;
+      }
+
+      const { valid, invalid } = filterValidSecrets(secrets);
+
+      if (invalid.length > 0) {
+        console.log(
+          chalk.yellow(`\n⚠ Invalid secret names (will be skipped):`),
+        );
+        invalid.forEach((name) => console.log(chalk.yellow(`  • ${name}`)));
+      }
+
+      if (Object.keys(valid).length === 0) {
+        console.log(chalk.red("\nNo valid secrets to upload."));
+        return;
+      }
+
+      // Configuration variables only exist for GitHub Actions
+      const { secrets: secretEntries, variables } =
+        (target.kind ?? "actions") === "actions"
+          ? await this.classifyEntries(valid)
+          : { secrets: valid, variables: {} };
+
+      const findings = lintSecrets(secretEntries, { sourceFile: filePath });
+      if (!(await this.checkLint(secretEntries, findings))) {
+        return;
+      }
+
+      const secretCount = Object.keys(secretEntries).length;
+      const variableCount = Object.keys(variables).length;
+
+      if (secretCount > 0) {
+        console.log(chalk.cyan(`\n✓ Secrets to upload: ${secretCount}`));
+        Object.entries(secretEntries).forEach(([name, value]) =>
+          console.log(
+            chalk.cyan(`  • ${name}`) +
+              (isValueReference(value) ? chalk.gray(` ← ${value}`) : ""),
+          ),
+        );
+      }
+
+      if (variableCount > 0) {
+        console.log(chalk.cyan(`\n✓ Variables to upload: ${variableCount}`));
+        Object.entries(variables).forEach(([name, value]) =>
+          console.log(chalk.cyan(`  • ${name}=${chalk.gray(value)}`)),
+        );
+      }
+
+      const confirmUpload = await confirm({
+        message: `Upload ${secretCount} secret(s) and ${variableCount} variable(s) to ${formatTarget(target)}?`,
+        default: true,
+      });
+
+      if (!confirmUpload) {
+        console.log(chalk.gray("Upload cancelled."));
+        return;
+      }
+
+      const spinner = ora();
+      this.spinner = spinner;
+
+      if (secretCount > 0) {
+        spinner.start("Uploading secrets...");
+        const result = await this.github!.batchCreateSecrets(
+          target,
+          secretEntries,
+          this.progressReporter(spinner, "uploaded"),
+        );
+        spinner.stop();
+        this.printUploadResult(result, "secret");
+      }
+
+      if (variableCount > 0) {
+        spinner.start("Uploading variables...");
+        const result = await this.github!.batchCreateVariables(
+          target,
+          variables,
+          this.progressReporter(spinner, "uploaded"),
+        );
+        spinner.stop();
+        this.printUploadResult(result, "variable");
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Read a secrets file in any supported format, offering to expand
+   * `${VAR}` references in .env files and printing parser warnings
+   * such as duplicate keys
+   */
+  private async loadEnvFile(
+    filePath: string,
+  ): Promise<Record<string, string> | null> {
+    const spinner = this.startSpinner(`Reading ${filePath}...`);
+    let warnings: EnvWarning[] = [];
+
+    try {
+      let entries = readSecretsFile(filePath, {
+        onWarning: (warning) => warnings.push(warning),
+      });
+      spinner.succeed(
+        `Found ${Object.keys(entries).length} variables in ${filePath}`,
+      );
+
+      if (
+        detectFormat(filePath) === "env" &&
+        Object.values(entries).some(hasVariableReferences)
+      ) {
+        const expand = await confirm({
+          message: "Some values contain ${VAR} references. Expand them?",
+          default: false,
+        });
+
+        if (expand) {
+          warnings = [];
+          entries = readSecretsFile(filePath, {
+            expand: true,
+            onWarning: (warning) => warnings.push(warning),
+          });
+        }
+      }
+
+      warnings.forEach((warning) =>
+        console.log(chalk.yellow(`⚠ ${formatEnvWarning(warning, filePath)}`)),
+      );
+      return entries;
+    } catch (error) {
+      if (spinner.isSpinning) {
+        spinner.fail(chalk.red("Failed to read file"));
+      }
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Show how a .env file differs from the target's secrets, then apply it.
+   * Remote-only secrets are only deleted after a separate confirmation.
+   */
+  private async syncSecretsWithFile(target: SecretTarget) {
+    try {
+      const filePath = await input({
+        message: "Path to .env, JSON, YAML or Kubernetes Secret file:",
+        default: target.environment ? `.env.${target.environment}` : ".env",
+      });
+
+      const local = await this.loadEnvFile(filePath);
+      if (!local) {
+        return;
+      }
+
+      const spinner = this.startSpinner("Comparing with remote secrets...");
+      const remote = await this.github!.listSecrets(target);
+      spinner.stop();
+
+      const plan = planSync(local, remote);
+
+      console.log(
+        chalk.bold(`\nSync plan for ${formatTarget(target)} from ${filePath}:`),
+      );
+      formatSyncPlan(plan, false).forEach((line) => console.log(line));
+
+      let prune = false;
+      if (plan.remoteOnly.length > 0) {
+        prune = await confirm({
+          message: chalk.red(
+            `Also delete ${plan.remoteOnly.length} secret(s) that are not in ${filePath}?`,
+          ),
+          default: false,
+        });
+      }
+
+      if (!hasChanges(plan, prune)) {
+        console.log(chalk.green("\n✓ Nothing to do."));
+        return;
+      }
+
+      const confirmApply = await confirm({
+        message: `Apply: ${plan.added.length} added, ${plan.overwritten.length} overwritten, ${prune ? plan.remoteOnly.length : 0} deleted?`,
+        default: true,
+      });
+
+      if (!confirmApply) {
+        console.log(chalk.gray("Sync cancelled."));
+        return;
+      }
+
+      spinner.start("Applying sync plan...");
+      const result = await applySyncPlan(
+        this.github!,
+        target,
+        plan,
+        prune,
+        this.progressReporter(spinner, "done"),
+      );
+      spinner.stop();
+
+      this.printUploadResult(result.uploaded, "secret");
+      if (result.deleted.success.length > 0) {
+        console.log(
+          chalk.green(
+            `\n✓ Deleted ${result.deleted.success.length} secret(s):`,
+          ),
+        );
+        result.deleted.success.forEach((name) =>
+          console.log(chalk.green(`  • ${name}`)),
+        );
+      }
+      if (result.deleted.failed.length > 0) {
+        console.log(
+          chalk.red(
+            `\n✗ Failed to delete ${result.deleted.failed.length} secret(s):`,
+          ),
+        );
+        result.deleted.failed.forEach(({ name, error }) =>
+          console.log(chalk.red(`  • ${name}: ${error}`)),
+        );
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Decide which .env entries are stored as secrets and which as
+   * plain configuration variables
+   */
+  private async classifyEntries(entries: Record<string, string>): Promise<{
+    secrets: Record<string, string>;
+    variables: Record<string, string>;
+  }> {
+    const mode = await select({
+      message: "How should the keys be stored?",
+      choices: [
+        {
+          name: "All as secrets",
+          value: "secrets",
+          description: "Encrypted values that can't be read back",
+        },
+        {
+          name: "Variables by name rule",
+          value: "rule",
+          description: "Keys matching a pattern become readable variables",
+        },
+        {
+          name: "Choose per key",
+          value: "pick",
+          description: "Mark each key as a secret or a variable",
+        },
+      ],
+    });
+
+    if (mode === "secrets") {
+      return { secrets: entries, variables: {} };
+    }
+
+    if (mode === "rule") {
+      const patterns = await input({
+        message: "Variable name patterns (comma-separated, * wildcard):",
+        default: "*_URL,*_REGION,FEATURE_*",
+      });
+      return splitSecretsAndVariables(entries, parseGlobList(patterns));
+    }
+
+    const variableNames = await checkbox({
+      message: "Select the keys to store as variables (the rest stay secrets):",
+      choices: Object.keys(entries).map((name) => ({ name, value: name })),
+      pageSize: 15,
+    });
+    return splitSecretsAndVariables(entries, variableNames);
+  }
+
+  /**
+   * Show batch progress such as "23/60 uploaded" in the spinner
+   */
+  private progressReporter(spinner: Ora, verb: string): BatchOptions {
+    return {
+      onProgress: (done, total) => {
+        spinner.text = `${done}/${total} ${verb}`;
+      },
+    };
+  }
+
+  private printUploadResult(result: BatchResult, kind: "secret" | "variable") {
+    if (result.success.length > 0) {
+      console.log(
+        chalk.green(
+          `\n✓ Successfully uploaded ${result.success.length} ${kind}(s):`,
+        ),
+      );
+      result.success.forEach((name) => console.log(chalk.green(`  • ${name}`)));
+    }
+
+    if (result.failed.length > 0) {
+      console.log(
+        chalk.red(`\n✗ Failed to upload ${result.failed.length} ${kind}(s):`),
+      );
+      result.failed.forEach(({ name, error }) =>
+        console.log(chalk.red(`  • ${name}: ${error}`)),
+      );
+    }
+  }
+
+  private async deleteSecret(target: SecretTarget) {
+    const spinner = this.startSpinner("Loading secrets...");
+
+    try {
+      const secrets = await this.github!.listSecrets(target);
+      spinner.stop();
+
+      if (secrets.length === 0) {
+        console.log(
+          chalk.yellow(`No secrets found in ${formatTarget(target)}.`),
+        );
+        return;
+      }
+
+      const secretName = await select({
+        message: "Select a secret to delete:",
+        choices: [
+          ...secrets.map((s: Secret) => ({
+            name: s.name,
+            value: s.name,
+          })),
+          {
+            name: chalk.gray("← Cancel"),
+            value: "cancel",
+          },
+        ],
+      });
+
+      if (secretName === "cancel") {
+        return;
+      }
+
+      const confirmDelete = await confirm({
+        message: chalk.red(`Are you sure you want to delete "${secretName}"?`),
+        default: false,
+      });
+
+      if (confirmDelete) {
+        spinner.start(`Deleting secret ${secretName}...`);
+        await this.github!.deleteSecret(target, secretName);
+        spinner.succeed(
+          chalk.green(`✓ Secret "${secretName}" deleted successfully`),
+        );
+      } else {
+        console.log(chalk.gray("Deletion cancelled."));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to delete secret"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private printVariables(variables: Variable[], emptyMessage: string) {
+    if (variables.length === 0) {
+      console.log(chalk.yellow(`\n${emptyMessage}`));
+    } else {
+      console.log(
+        chalk.bold.green(`\nFound ${variables.length} variable(s):\n`),
+      );
+      variables.forEach((variable) => {
+        console.log(
+          `  ${chalk.cyan("•")} ${chalk.bold(variable.name)}=${variable.value} ${chalk.gray(`(updated: ${new Date(variable.updated_at).toLocaleDateString()})`)}`,
+        );
+      });
+    }
+    console.log();
+  }
+
+  private async listVariables(target: SecretTarget) {
+    const spinner = this.startSpinner("Loading variables...");
+
+    try {
+      const variables = await this.github!.listVariables(target);
+      spinner.stop();
+      this.printVariables(
+        variables,
+        `No variables found in ${formatTarget(target)}.`,
+      );
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load variables"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async addVariable(target: SecretTarget) {
+    try {
+      const name = await this.promptSecretName("Variable name:");
+
+      const value = await input({
+        message: "Variable value:",
+      });
+
+      const spinner = this.startSpinner(
+        `Creating/updating variable ${name}...`,
+      );
+
+      await this.github!.createOrUpdateVariable(target, name, value);
+      spinner.succeed(
+        chalk.green(`✓ Variable "${name}" created/updated successfully`),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to create variable: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  private async deleteVariable(target: SecretTarget) {
+    const spinner = this.startSpinner("Loading variables...");
+
+    try {
+      const variables = await this.github!.listVariables(target);
+      spinner.stop();
+
+      if (variables.length === 0) {
+        console.log(
+          chalk.yellow(`No variables found in ${formatTarget(target)}.`),
+        );
+        return;
+      }
+
+      const name = await select({
+        message: "Select a variable to delete:",
+        choices: [
+          ...variables.map((v) => ({
+            name: `${v.name}=${chalk.gray(v.value)}`,
+            value: v.name,
+          })),
+          {
+            name: chalk.gray("← Cancel"),
+            value: "cancel",
+          },
+        ],
+      });
+
+      if (name === "cancel") {
+        return;
+      }
+
+      const confirmDelete = await confirm({
+        message: chalk.red(`Are you sure you want to delete "${name}"?`),
+        default: false,
+      });
+
+      if (confirmDelete) {
+        spinner.start(`Deleting variable ${name}...`);
+        await this.github!.deleteVariable(target, name);
+        spinner.succeed(
+          chalk.green(`✓ Variable "${name}" deleted successfully`),
+        );
+      } else {
+        console.log(chalk.gray("Deletion cancelled."));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to delete variable"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async manageCodespacesUserSecrets() {
+    while (true) {
+      console.log(chalk.bold.cyan("\n💻 Codespaces user secrets\n"));
+
+      const action = await select({
+        message: "Choose an action:",
+        choices: [
+          {
+            name: "List Secrets",
+            value: "list",
+            description: "View your Codespaces secrets",
+          },
+          {
+            name: "Add/Update Secret",
+            value: "add",
+            description: "Create or update a Codespaces secret",
+          },
+          {
+            name: "Delete Secret",
+            value: "delete",
+            description: "Remove one of your Codespaces secrets",
+          },
+          {
+            name: chalk.gray("← Back to Main Menu"),
+            value: "back",
+          },
+        ],
+      });
+
+      if (action === "back") {
+        break;
+      }
+
+      switch (action) {
+        case "list":
+          await this.listCodespacesUserSecrets();
+          break;
+        case "add":
+          await this.addCodespacesUserSecret();
+          break;
+        case "delete":
+          await this.deleteCodespacesUserSecret();
+          break;
+      }
+    }
+  }
+
+  private async listCodespacesUserSecrets() {
+    const spinner = this.startSpinner("Loading secrets...");
+
+    try {
+      const secrets = await this.github!.listUserCodespacesSecrets();
+      spinner.stop();
+
+      if (secrets.length === 0) {
+        console.log(chalk.yellow("\nNo Codespaces secrets found."));
+      } else {
+        console.log(chalk.bold.green(`\nFound ${secrets.length} secret(s):\n`));
+        secrets.forEach((secret) => {
+          console.log(
+            `  ${chalk.cyan("•")} ${chalk.bold(secret.name)} ${chalk.magenta(`[${secret.visibility}]`)} ${chalk.gray(`(updated: ${new Date(secret.updated_at).toLocaleDateString()})`)}`,
+          );
+        });
+      }
+      console.log();
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load secrets"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async addCodespacesUserSecret() {
+    try {
+      const name = await this.promptSecretName();
+
+      const value = await password({
+        message: "Secret value:",
+        mask: "*",
+      });
+
+      const spinner = this.startSpinner("Loading repositories...");
+      const repos = await this.github!.listUserRepositories();
+      spinner.stop();
+
+      const repositoryIds = await checkbox({
+        message: "Which repositories' codespaces can use this secret?",
+        choices: repos.map((r) => ({ name: r.full_name, value: r.id })),
+        pageSize: 15,
+      });
+
+      spinner.start(`Creating/updating secret ${name}...`);
+      await this.github!.createOrUpdateUserCodespacesSecret(
+        name,
+        value,
+        repositoryIds,
+      );
+      spinner.succeed(
+        chalk.green(`✓ Secret "${name}" created/updated successfully`),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to create secret: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  private async deleteCodespacesUserSecret() {
+    const spinner = this.startSpinner("Loading secrets...");
+
+    try {
+      const secrets = await this.github!.listUserCodespacesSecrets();
+      spinner.stop();
+
+      if (secrets.length === 0) {
+        console.log(chalk.yellow("No Codespaces secrets found."));
+        return;
+      }
+
+      const secretName = await select({
+        message: "Select a secret to delete:",
+        choices: [
+          ...secrets.map((s) => ({ name: s.name, value: s.name })),
+          {
+            name: chalk.gray("← Cancel"),
+            value: "cancel",
+          },
+        ],
+      });
+
+      if (secretName === "cancel") {
+        return;
+      }
+
+      const confirmDelete = await confirm({
+        message: chalk.red(`Are you sure you want to delete "${secretName}"?`),
+        default: false,
+      });
+
+      if (confirmDelete) {
+        spinner.start(`Deleting secret ${secretName}...`);
+        await this.github!.deleteUserCodespacesSecret(secretName);
+        spinner.succeed(
+          chalk.green(`✓ Secret "${secretName}" deleted successfully`),
+        );
+      } else {
+        console.log(chalk.gray("Deletion cancelled."));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to delete secret"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
+
+  private async manageOrgSecrets(org: string) {
     while (true) {
-      console.log(chalk.bold.cyan(`\n📦 Repository: ${owner}/${repo}\n`));
+      console.log(chalk.bold.cyan(`\n🏢 Organization: ${org}\n`));
 
       const action = await select({
         message: "Choose an action:",
@@ -387,25 +2807,45 @@ export class SecretManagerCLI {
           {
             name: "List Secrets",
             value: "list",
-            description: "View all secrets in this repository",
+            description: "View all secrets in this organization",
           },
           {
-            name: "Add/Update Single Secret",
+            name: "Add/Update Secret",
             value: "add",
-            description: "Create or update a single secret",
+            description: "Create or update an organization secret",
           },
           {
-            name: "Upload Secrets from .env File",
-            value: "upload",
-            description: "Batch upload secrets from a .env file",
+            name: "Change Visibility",
+            value: "visibility",
+            description: "Choose which repositories can access a secret",
+          },
+          {
+            name: "Manage Selected Repositories",
+            value: "repositories",
+            description: "Add or remove repositories for a 'selected' secret",
           },
           {
             name: "Delete Secret",
             value: "delete",
-            description: "Remove a secret from the repository",
+            description: "Remove a secret from the organization",
           },
           {
-            name: chalk.gray("← Back to Repository Selection"),
+            name: "List Variables",
+            value: "list-variables",
+            description: "View organization variables and their values",
+          },
+          {
+            name: "Add/Update Variable",
+            value: "add-variable",
+            description: "Create or update an organization variable",
+          },
+          {
+            name: "Delete Variable",
+            value: "delete-variable",
+            description: "Remove a variable from the organization",
+          },
+          {
+            name: chalk.gray("← Back to Organization Selection"),
             value: "back",
           },
         ],
@@ -417,35 +2857,47 @@ export class SecretManagerCLI {
 
       switch (action) {
         case "list":
-          await this.listSecrets(owner, repo);
+          await this.listOrgSecrets(org);
           break;
         case "add":
-          await this.addSingleSecret(owner, repo);
+          await this.addOrgSecret(org);
           break;
-        case "upload":
-          await this.uploadSecretsFromFile(owner, repo);
+        case "visibility":
+          await this.changeOrgSecretVisibility(org);
+          break;
+        case "repositories":
+          await this.manageOrgSecretRepositories(org);
           break;
         case "delete":
-          await this.deleteSecret(owner, repo);
+          await this.deleteOrgSecret(org);
+          break;
+        case "list-variables":
+          await this.listOrgVariables(org);
+          break;
+        case "add-variable":
+          await this.addOrgVariable(org);
+          break;
+        case "delete-variable":
+          await this.deleteOrgVariable(org);
           break;
       }
     }
   }
 
-  private async listSecrets(owner: string, repo: string) {
-    const spinner = ora("Loading secrets...").start();
+  private async listOrgSecrets(org: string) {
+    const spinner = this.startSpinner("Loading secrets...");
 
     try {
-      const secrets = await this.github!.listRepoSecrets(owner, repo);
+      const secrets = await this.github!.listOrgSecrets(org);
       spinner.stop();
 
       if (secrets.length === 0) {
-        console.log(chalk.yellow("\nNo secrets found in this repository."));
+        console.log(chalk.yellow("\nNo secrets found in this organization."));
       } else {
         console.log(chalk.bold.green(`\nFound ${secrets.length} secret(s):\n`));
-        secrets.forEach((secret: Secret) => {
+        secrets.forEach((secret: OrgSecret) => {
           console.log(
-            `  ${chalk.cyan("•")} ${chalk.bold(secret.name)} ${chalk.gray(`(updated: ${new Date(secret.updated_at).toLocaleDateString()})`)}`,
+            `  ${chalk.cyan("•")} ${chalk.bold(secret.name)} ${chalk.magenta(`[${secret.visibility}]`)} ${chalk.gray(`(updated: ${new Date(secret.updated_at).toLocaleDateString()})`)}`,
           );
         });
       }
@@ -458,30 +2910,68 @@ export class SecretManagerCLI {
     }
   }
 
-  private async addSingleSecret(owner: string, repo: string) {
-    try {
-      const name = await input({
-        message: "Secret name:",
-        validate: (value) => {
-          if (!value) return "Secret name is required";
-          if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) {
-            return "Invalid name. Use only letters, numbers, and underscores. Cannot start with a number.";
-          }
-          if (value.startsWith("GITHUB_")) {
-            return "Secret names cannot start with GITHUB_";
-          }
-          return true;
+  /**
+   * Ask for a visibility and, for "selected", the repositories to grant
+   */
+  private async promptOrgVisibility(
+    org: string,
+    current?: OrgSecretVisibility,
+    kind: "secret" | "variable" = "secret",
+  ): Promise<{ visibility: OrgSecretVisibility; repositoryIds: number[] }> {
+    const visibility = await select<OrgSecretVisibility>({
+      message: `Which repositories can access this ${kind}?`,
+      default: current,
+      choices: [
+        {
+          name: "All repositories",
+          value: "all",
         },
-      });
+        {
+          name: "Private repositories",
+          value: "private",
+          description: "Private and internal repositories only",
+        },
+        {
+          name: "Selected repositories",
+          value: "selected",
+        },
+      ],
+    });
+
+    if (visibility !== "selected") {
+      return { visibility, repositoryIds: [] };
+    }
+
+    const repos = await this.github!.listOrgRepositories(org);
+    const repositoryIds = await checkbox({
+      message: "Select the repositories:",
+      choices: repos.map((r) => ({ name: r.name, value: r.id })),
+      pageSize: 15,
+    });
+
+    return { visibility, repositoryIds };
+  }
+
+  private async addOrgSecret(org: string) {
+    try {
+      const name = await this.promptSecretName();
 
       const value = await password({
         message: "Secret value:",
         mask: "*",
       });
 
-      const spinner = ora(`Creating/updating secret ${name}...`).start();
+      const { visibility, repositoryIds } = await this.promptOrgVisibility(org);
+
+      const spinner = this.startSpinner(`Creating/updating secret ${name}...`);
 
-      await this.github!.createOrUpdateRepoSecret(owner, repo, name, value);
+      await this.github!.createOrUpdateOrgSecret(
+        org,
+        name,
+        value,
+        visibility,
+        repositoryIds,
+      );
       spinner.succeed(
         chalk.green(`✓ Secret "${name}" created/updated successfully`),
       );
@@ -494,115 +2984,240 @@ export class SecretManagerCLI {
     }
   }
 
-  private async uploadSecretsFromFile(owner: string, repo: string) {
-    try {
-      const filePath = await input({
-        message: "Path to .env file:",
-        default: ".env",
-      });
+  /**
+   * Let the user pick one of the organization's secrets
+   */
+  private async selectOrgSecret(
+    org: string,
+    filter: (secret: OrgSecret) => boolean = () => true,
+  ): Promise<OrgSecret | null> {
+    const spinner = this.startSpinner("Loading secrets...");
+    const secrets = (await this.github!.listOrgSecrets(org)).filter(filter);
+    spinner.stop();
+
+    if (secrets.length === 0) {
+      console.log(
+        chalk.yellow("No matching secrets found in this organization."),
+      );
+      return null;
+    }
 
-      const spinner = ora("Reading .env file...").start();
+    const secretName = await select({
+      message: "Select a secret:",
+      choices: [
+        ...secrets.map((s) => ({
+          name: `${s.name} ${chalk.magenta(`[${s.visibility}]`)}`,
+          value: s.name,
+        })),
+        {
+          name: chalk.gray("← Cancel"),
+          value: "cancel",
+        },
+      ],
+    });
 
-      let secrets: Record<string, string>;
-      try {
-        secrets = readEnvFile(filePath);
-        spinner.succeed(
-          `Found ${Object.keys(secrets).length} variables in ${filePath}`,
-        );
-      } catch (error) {
-        spinner.fail(chalk.red("Failed to read file"));
-        console.error(
-          chalk.red(error instanceof Error ? error.message : String(error)),
-        );
-        return;
-      }
+    return secrets.find((s) => s.name === secretName) || null;
+  }
 
-      if (Object.keys(secrets).length === 0) {
-        console.log(chalk.yellow("No secrets found in the file."));
+  private async changeOrgSecretVisibility(org: string) {
+    try {
+      const secret = await this.selectOrgSecret(org);
+      if (!secret) {
         return;
       }
 
-      const { valid, invalid } = filterValidSecrets(secrets);
+      const { visibility, repositoryIds } = await this.promptOrgVisibility(
+        org,
+        secret.visibility,
+      );
 
-      if (invalid.length > 0) {
-        console.log(
-          chalk.yellow(`\n⚠ Invalid secret names (will be skipped):`),
-        );
-        invalid.forEach((name) => console.log(chalk.yellow(`  • ${name}`)));
-      }
+      const spinner = this.startSpinner(
+        `Updating visibility of ${secret.name}...`,
+      );
+      await this.github!.updateOrgSecretVisibility(
+        org,
+        secret.name,
+        visibility,
+        repositoryIds,
+      );
+      spinner.succeed(
+        chalk.green(
+          `✓ Secret "${secret.name}" is now visible to: ${visibility}`,
+        ),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to update visibility: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
 
-      if (Object.keys(valid).length === 0) {
-        console.log(chalk.red("\nNo valid secrets to upload."));
+  private async manageOrgSecretRepositories(org: string) {
+    try {
+      const secret = await this.selectOrgSecret(
+        org,
+        (s) => s.visibility === "selected",
+      );
+      if (!secret) {
         return;
       }
 
-      console.log(
-        chalk.cyan(`\n✓ Valid secrets to upload: ${Object.keys(valid).length}`),
-      );
-      Object.keys(valid).forEach((name) =>
-        console.log(chalk.cyan(`  • ${name}`)),
+      const spinner = this.startSpinner("Loading repositories...");
+      const [repos, selected] = await Promise.all([
+        this.github!.listOrgRepositories(org),
+        this.github!.listOrgSecretRepositories(org, secret.name),
+      ]);
+      spinner.stop();
+
+      const currentIds = new Set(selected.map((r) => r.id));
+      const chosenIds = new Set(
+        await checkbox({
+          message: `Repositories that can access ${secret.name}:`,
+          choices: repos.map((r) => ({
+            name: r.name,
+            value: r.id,
+            checked: currentIds.has(r.id),
+          })),
+          pageSize: 15,
+        }),
       );
 
-      const confirmUpload = await confirm({
-        message: `Upload ${Object.keys(valid).length} secret(s) to ${owner}/${repo}?`,
-        default: true,
-      });
+      const added = repos.filter(
+        (r) => chosenIds.has(r.id) && !currentIds.has(r.id),
+      );
+      const removed = repos.filter(
+        (r) => !chosenIds.has(r.id) && currentIds.has(r.id),
+      );
 
-      if (!confirmUpload) {
-        console.log(chalk.gray("Upload cancelled."));
+      if (added.length === 0 && removed.length === 0) {
+        console.log(chalk.gray("No changes."));
         return;
       }
 
-      spinner.start("Uploading secrets...");
-      const result = await this.github!.batchCreateSecrets(owner, repo, valid);
-      spinner.stop();
+      for (const repo of added) {
+        await this.github!.addOrgSecretRepository(org, secret.name, repo.id);
+        console.log(chalk.green(`  + ${repo.name}`));
+      }
+      for (const repo of removed) {
+        await this.github!.removeOrgSecretRepository(org, secret.name, repo.id);
+        console.log(chalk.red(`  - ${repo.name}`));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to update repositories: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
 
-      if (result.success.length > 0) {
-        console.log(
-          chalk.green(
-            `\n✓ Successfully uploaded ${result.success.length} secret(s):`,
-          ),
-        );
-        result.success.forEach((name) =>
-          console.log(chalk.green(`  • ${name}`)),
-        );
+  private async deleteOrgSecret(org: string) {
+    try {
+      const secret = await this.selectOrgSecret(org);
+      if (!secret) {
+        return;
       }
 
-      if (result.failed.length > 0) {
-        console.log(
-          chalk.red(`\n✗ Failed to upload ${result.failed.length} secret(s):`),
-        );
-        result.failed.forEach(({ name, error }) =>
-          console.log(chalk.red(`  • ${name}: ${error}`)),
+      const confirmDelete = await confirm({
+        message: chalk.red(
+          `Are you sure you want to delete "${secret.name}" from ${org}?`,
+        ),
+        default: false,
+      });
+
+      if (confirmDelete) {
+        const spinner = this.startSpinner(`Deleting secret ${secret.name}...`);
+        await this.github!.deleteOrgSecret(org, secret.name);
+        spinner.succeed(
+          chalk.green(`✓ Secret "${secret.name}" deleted successfully`),
         );
+      } else {
+        console.log(chalk.gray("Deletion cancelled."));
       }
     } catch (error) {
       console.error(
         chalk.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
+          `✗ Failed to delete secret: ${error instanceof Error ? error.message : String(error)}`,
         ),
       );
     }
   }
 
-  private async deleteSecret(owner: string, repo: string) {
-    const spinner = ora("Loading secrets...").start();
+  private async listOrgVariables(org: string) {
+    const spinner = this.startSpinner("Loading variables...");
 
     try {
-      const secrets = await this.github!.listRepoSecrets(owner, repo);
+      const variables = await this.github!.listOrgVariables(org);
       spinner.stop();
+      this.printVariables(
+        variables,
+        "No variables found in this organization.",
+      );
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to load variables"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error)),
+      );
+    }
+  }
 
-      if (secrets.length === 0) {
-        console.log(chalk.yellow("No secrets found in this repository."));
+  private async addOrgVariable(org: string) {
+    try {
+      const name = await this.promptSecretName("Variable name:");
+
+      const value = await input({
+        message: "Variable value:",
+      });
+
+      const { visibility, repositoryIds } = await this.promptOrgVisibility(
+        org,
+        undefined,
+        "variable",
+      );
+
+      const spinner = this.startSpinner(
+        `Creating/updating variable ${name}...`,
+      );
+
+      await this.github!.createOrUpdateOrgVariable(
+        org,
+        name,
+        value,
+        visibility,
+        repositoryIds,
+      );
+      spinner.succeed(
+        chalk.green(`✓ Variable "${name}" created/updated successfully`),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✗ Failed to create variable: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  private async deleteOrgVariable(org: string) {
+    const spinner = this.startSpinner("Loading variables...");
+
+    try {
+      const variables = await this.github!.listOrgVariables(org);
+      spinner.stop();
+
+      if (variables.length === 0) {
+        console.log(chalk.yellow("No variables found in this organization."));
         return;
       }
 
-      const secretName = await select({
-        message: "Select a secret to delete:",
+      const name = await select({
+        message: "Select a variable to delete:",
         choices: [
-          ...secrets.map((s: Secret) => ({
-            name: s.name,
-            value: s.name,
+          ...variables.map((v) => ({
+            name: `${v.name}=${chalk.gray(v.value)}`,
+            value: v.name,
           })),
           {
             name: chalk.gray("← Cancel"),
@@ -611,26 +3226,28 @@ export class SecretManagerCLI {
         ],
       });
 
-      if (secretName === "cancel") {
+      if (name === "cancel") {
         return;
       }
 
       const confirmDelete = await confirm({
-        message: chalk.red(`Are you sure you want to delete "${secretName}"?`),
+        message: chalk.red(
+          `Are you sure you want to delete "${name}" from ${org}?`,
+        ),
         default: false,
       });
 
       if (confirmDelete) {
-        spinner.start(`Deleting secret ${secretName}...`);
-        await this.github!.deleteRepoSecret(owner, repo, secretName);
+        spinner.start(`Deleting variable ${name}...`);
+        await this.github!.deleteOrgVariable(org, name);
         spinner.succeed(
-          chalk.green(`✓ Secret "${secretName}" deleted successfully`),
+          chalk.green(`✓ Variable "${name}" deleted successfully`),
         );
       } else {
         console.log(chalk.gray("Deletion cancelled."));
       }
     } catch (error) {
-      spinner.fail(chalk.red("Failed to delete secret"));
+      spinner.fail(chalk.red("Failed to delete variable"));
       console.error(
         chalk.red(error instanceof Error ? error.message : String(error)),
       );
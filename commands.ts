@@ -0,0 +1,1613 @@
+import { parseArgs, ParseArgsConfig } from "util";
+import { confirm } from "@inquirer/prompts";
+import chalk from "chalk";
+import {
+  AUDIT_OPERATIONS,
+  AuditOperation,
+  filterAuditEntries,
+  formatAuditCsv,
+  formatAuditEntry,
+  getAuditLogPath,
+  parseAuditTime,
+  readAuditLog,
+} from "./audit.js";
+import { SecretManagerCLI, printDryRunRequest } from "./cli.js";
+import {
+  deleteStoredCredential,
+  describeTokenSource,
+  getCredentialPath,
+  resolveToken,
+} from "./credentials.js";
+import {
+  DEFAULT_CONCURRENCY,
+  GitHubService,
+  SECRET_KINDS,
+  SecretKind,
+  SecretTarget,
+  formatTarget,
+} from "./github.js";
+import {
+  filterValidSecrets,
+  formatEnvWarning,
+  validateSecretName,
+  splitSecretsAndVariables,
+} from "./env-parser.js";
+import {
+  SECRET_FILE_FORMATS,
+  SecretFileFormat,
+  readSecretsFile,
+} from "./formats.js";
+import {
+  fanOutSecrets,
+  formatFanOutMatrix,
+  readRepositoryList,
+  selectByGlob,
+  selectByTopic,
+  summarizeFanOut,
+} from "./fanout.js";
+import { detectRepository } from "./git-remote.js";
+import { GitHubAppAuth, readAppCredentialsFromEnv } from "./github-app.js";
+import { GitHubHost, HostSettings, isGitHubCom, resolveHost } from "./hosts.js";
+import { parseGlobList } from "./glob.js";
+import {
+  LintFinding,
+  formatLintFinding,
+  formatBlockedMessage,
+  isBlocking,
+  lintSecrets,
+} from "./lint.js";
+import {
+  DEFAULT_MANIFEST_PATH,
+  applyManifestPlan,
+  formatManifestPlan,
+  loadManifest,
+  planManifest,
+} from "./manifest.js";
+import { escapeValue, resolveAllReferences } from "./references.js";
+import {
+  DEFAULT_REPOSITORY_FILTERS,
+  filterRepositories,
+} from "./repo-filter.js";
+import {
+  DEFAULT_LENGTHS,
+  MAX_LENGTH,
+  SECRET_FORMATS,
+  SecretFormat,
+  describeFormat,
+  generateSecretValue,
+  pipeToCommand,
+  rollOutSecret,
+} from "./rotate.js";
+import {
+  LARGE_SECRET_TIP,
+  SecretTooLargeError,
+  assertSecretSize,
+  formatBytes,
+  readSecretFile,
+} from "./secret-size.js";
+import {
+  DEFAULT_MAX_AGE_DAYS,
+  STALENESS_SORTS,
+  StalenessSort,
+  collectSecretAges,
+  formatStalenessCsv,
+  formatStalenessTable,
+  parseMaxAge,
+  sortSecretAges,
+} from "./staleness.js";
+import { applySyncPlan, formatSyncPlan, hasChanges, planSync } from "./sync.js";
+
+/**
+ * Process exit codes used by the non-interactive commands
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  USAGE: 2,
+  AUTH: 3,
+  PARTIAL: 4,
+  STALE: 5,
+} as const;
+
+type CommandOptions = NonNullable<ParseArgsConfig["options"]>;
+
+type OptionValue = string | boolean | (string | boolean)[] | undefined;
+
+interface ParsedArgs {
+  positionals: string[];
+  values: Record<string, OptionValue>;
+  flags: GlobalFlags;
+  /** The GitHub instance from the flags, the environment or config */
+  host: GitHubHost;
+}
+
+export interface GlobalFlags {
+  /** Print writes instead of sending them */
+  dryRun: boolean;
+  /** Refuse to upload secrets with lint findings */
+  strict: boolean;
+  /** Print the device flow URL without opening a browser */
+  noBrowser: boolean;
+  /** --host, --api-url and --oauth-url */
+  host: HostSettings;
+}
+
+const GLOBAL_BOOLEAN_FLAGS = {
+  "--dry-run": "dryRun",
+  "--strict": "strict",
+  "--no-browser": "noBrowser",
+} as const;
+
+const GLOBAL_VALUE_FLAGS = {
+  "--host": "host",
+  "--api-url": "apiUrl",
+  "--oauth-url": "oauthUrl",
+} as const;
+
+interface CommandDefinition {
+  usage: string;
+  description: string;
+  help: [flag: string, description: string][];
+  options: CommandOptions;
+  run(args: ParsedArgs): Promise<number>;
+}
+
+class UsageError extends Error {}
+
+class AuthError extends Error {}
+
+const MAX_CONCURRENCY = 20;
+
+const HELP_OPTION: CommandOptions = {
+  help: { type: "boolean", short: "h" },
+};
+
+const TARGET_OPTIONS: CommandOptions = {
+  env: { type: "string", short: "e" },
+  kind: { type: "string", short: "k", default: "actions" },
+  remote: { type: "string" },
+};
+
+const TARGET_HELP: [string, string][] = [
+  [
+    "-e, --env <name>",
+    "Target a deployment environment instead of the repository",
+  ],
+  [
+    "-k, --kind <kind>",
+    `Secret store: ${SECRET_KINDS.join(", ")} (default: actions)`,
+  ],
+  [
+    "--remote <name>",
+    "Without owner/repo, use this git remote (default: origin, then upstream)",
+  ],
+];
+
+const ENV_FILE_OPTIONS: CommandOptions = {
+  file: { type: "string", short: "f", default: ".env" },
+  format: { type: "string" },
+  expand: { type: "boolean" },
+};
+
+const ENV_FILE_HELP: [string, string][] = [
+  ["-f, --file <path>", "Path to the secrets file (default: .env)"],
+  [
+    "--format <format>",
+    `File format: ${SECRET_FILE_FORMATS.join(", ")} (default: from the file name)`,
+  ],
+  ["--expand", "Expand ${VAR} references in a .env file"],
+];
+
+const LITERAL_OPTION: CommandOptions = {
+  literal: { type: "boolean" },
+};
+
+const LITERAL_HELP: [string, string] = [
+  "--literal",
+  "Upload values as written, without resolving @file:, @cmd:, ... references",
+];
+
+const BATCH_OPTIONS: CommandOptions = {
+  concurrency: { type: "string", default: String(DEFAULT_CONCURRENCY) },
+};
+
+const BATCH_HELP: [string, string][] = [
+  [
+    "--concurrency <n>",
+    `Requests in flight at once, 1-${MAX_CONCURRENCY} (default: ${DEFAULT_CONCURRENCY})`,
+  ],
+];
+
+const COMMANDS: Record<string, CommandDefinition> = {
+  list: {
+    usage:
+      "list [owner/repo] [--env <name>] [--kind <kind>] [--remote <name>] [--variables] [--json]",
+    description: "List the secret names in a repository",
+    help: [
+      ...TARGET_HELP,
+      ["--variables", "List configuration variables with their values"],
+      ["--json", "Print the result as JSON, including timestamps"],
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      variables: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+    run: runList,
+  },
+  set: {
+    usage:
+      "set [owner/repo] <NAME> (--value <value> | --value-from-stdin | --value-from-file <path> [--base64]) [--env <name>] [--kind <kind>] [--remote <name>] [--literal]",
+    description: "Create or update a single secret",
+    help: [
+      ["--value <value>", "Secret value (visible in your shell history)"],
+      ["--value-from-stdin", "Read the secret value from stdin"],
+      ["", "(a single trailing newline is removed)"],
+      ["--value-from-file <path>", "Use a file's content as the value"],
+      ["--base64", "Base64-encode the file, e.g. for keystores or .p12 files"],
+      ...TARGET_HELP,
+      LITERAL_HELP,
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      value: { type: "string" },
+      "value-from-stdin": { type: "boolean" },
+      "value-from-file": { type: "string" },
+      base64: { type: "boolean" },
+      ...LITERAL_OPTION,
+    },
+    run: runSet,
+  },
+  delete: {
+    usage:
+      "delete [owner/repo] <NAME> [--env <name>] [--kind <kind>] [--remote <name>] [--yes]",
+    description: "Delete a secret",
+    help: [
+      [
+        "-y, --yes",
+        "Skip the confirmation prompt (required without a terminal)",
+      ],
+      ...TARGET_HELP,
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      yes: { type: "boolean", short: "y" },
+    },
+    run: runDelete,
+  },
+  upload: {
+    usage:
+      "upload [owner/repo] [--file <path>] [--format <format>] [--expand] [--env <name>] [--kind <kind>] [--remote <name>] [--variables <globs>] [--concurrency <n>] [--literal]",
+    description: "Upload every valid secret from a .env, JSON or YAML file",
+    help: [
+      ...ENV_FILE_HELP,
+      ...TARGET_HELP,
+      [
+        "--variables <globs>",
+        "Store matching keys as variables, e.g. *_URL,REGION",
+      ],
+      ...BATCH_HELP,
+      LITERAL_HELP,
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      ...ENV_FILE_OPTIONS,
+      variables: { type: "string" },
+      ...BATCH_OPTIONS,
+      ...LITERAL_OPTION,
+    },
+    run: runUpload,
+  },
+  sync: {
+    usage:
+      "sync [owner/repo] [--file <path>] [--format <format>] [--expand] [--env <name>] [--kind <kind>] [--remote <name>] [--prune] [--plan] [--yes] [--concurrency <n>] [--literal]",
+    description: "Make a target's secrets match a secrets file",
+    help: [
+      ...ENV_FILE_HELP,
+      ...TARGET_HELP,
+      ["--prune", "Also delete secrets that are not in the file"],
+      ["--plan", "Only print the plan, change nothing"],
+      [
+        "-y, --yes",
+        "Skip the confirmation prompt (required without a terminal)",
+      ],
+      ...BATCH_HELP,
+      LITERAL_HELP,
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      ...ENV_FILE_OPTIONS,
+      prune: { type: "boolean" },
+      plan: { type: "boolean" },
+      yes: { type: "boolean", short: "y" },
+      ...BATCH_OPTIONS,
+      ...LITERAL_OPTION,
+    },
+    run: runSync,
+  },
+  fanout: {
+    usage:
+      "fanout [owner/repo...] [--repos <globs>] [--topic <topic>] [--repo-file <path>] (--name <NAME> (--value <value> | --value-from-stdin) | --file <path>) [--kind <kind>] [--concurrency <n>] [--literal]",
+    description: "Write the same secrets to many repositories",
+    help: [
+      ["--repos <globs>", "Repositories whose name matches, e.g. my-org/api-*"],
+      ["--topic <topic>", "Repositories tagged with a topic"],
+      ["--repo-file <path>", "File with one owner/repo per line"],
+      ["--name <NAME>", "Write a single secret with this name"],
+      ["--value <value>", "Value of the single secret"],
+      ["--value-from-stdin", "Read the single secret's value from stdin"],
+      ["-f, --file <path>", "Write every secret from this file instead"],
+      ...ENV_FILE_HELP.slice(1),
+      TARGET_HELP[1],
+      ...BATCH_HELP,
+      LITERAL_HELP,
+    ],
+    options: {
+      kind: TARGET_OPTIONS.kind,
+      repos: { type: "string" },
+      topic: { type: "string" },
+      "repo-file": { type: "string" },
+      name: { type: "string" },
+      value: { type: "string" },
+      "value-from-stdin": { type: "boolean" },
+      ...ENV_FILE_OPTIONS,
+      file: { type: "string", short: "f" },
+      ...BATCH_OPTIONS,
+      ...LITERAL_OPTION,
+    },
+    run: runFanOut,
+  },
+  rotate: {
+    usage:
+      "rotate [owner/repo...] NAME [--env <name>...] [--kind <kind>] [--format <format>] [--length <n>] [--print] [--pipe <command>] [--remote <name>] [--concurrency <n>]",
+    description:
+      "Generate a new random value for a secret and write it everywhere",
+    help: [
+      [
+        "-e, --env <name>",
+        "Write to this environment of each repository instead; repeat for several",
+      ],
+      ...TARGET_HELP.slice(1),
+      [
+        "--format <format>",
+        `Value format: ${SECRET_FORMATS.join(", ")} (default: hex)`,
+      ],
+      [
+        "--length <n>",
+        `Random bytes, or words for a passphrase (default: ${DEFAULT_LENGTHS.hex} bytes, ${DEFAULT_LENGTHS.passphrase} words)`,
+      ],
+      ["--print", "Print the new value on stdout, once"],
+      [
+        "--pipe <command>",
+        "Once written everywhere, run a shell command with the value on stdin",
+      ],
+      ...BATCH_HELP,
+    ],
+    options: {
+      ...TARGET_OPTIONS,
+      env: { type: "string", short: "e", multiple: true },
+      format: { type: "string", default: "hex" },
+      length: { type: "string" },
+      print: { type: "boolean" },
+      pipe: { type: "string" },
+      ...BATCH_OPTIONS,
+    },
+    run: runRotate,
+  },
+  plan: {
+    usage: "plan [--manifest <path>]",
+    description: "Show how the live secrets differ from a manifest",
+    help: [
+      [
+        "-m, --manifest <path>",
+        `Path to the manifest (default: ${DEFAULT_MANIFEST_PATH})`,
+      ],
+    ],
+    options: {
+      manifest: { type: "string", short: "m", default: DEFAULT_MANIFEST_PATH },
+    },
+    run: runPlan,
+  },
+  apply: {
+    usage: "apply [--manifest <path>] [--yes] [--concurrency <n>] [--literal]",
+    description: "Create, update and delete secrets to match a manifest",
+    help: [
+      [
+        "-m, --manifest <path>",
+        `Path to the manifest (default: ${DEFAULT_MANIFEST_PATH})`,
+      ],
+      [
+        "-y, --yes",
+        "Skip the confirmation prompt (required without a terminal)",
+      ],
+      ...BATCH_HELP,
+      LITERAL_HELP,
+    ],
+    options: {
+      manifest: { type: "string", short: "m", default: DEFAULT_MANIFEST_PATH },
+      yes: { type: "boolean", short: "y" },
+      ...BATCH_OPTIONS,
+      ...LITERAL_OPTION,
+    },
+    run: runApply,
+  },
+  history: {
+    usage:
+      "history [--repo <globs>] [--secret <globs>] [--actor <login>] [--operation <op>] [--failed] [--since <when>] [--until <when>] [--json | --csv]",
+    description: "Show the local journal of secret changes",
+    help: [
+      ["--repo <globs>", "Only targets that match, e.g. my-org/api-*"],
+      ["--secret <globs>", "Only secrets that match, e.g. NPM_*,AWS_*"],
+      ["--actor <login>", "Only changes made by this GitHub user"],
+      ["--operation <op>", `One of: ${AUDIT_OPERATIONS.join(", ")}`],
+      ["--failed", "Only changes that failed"],
+      ["--since <when>", "An ISO date or an age such as 30d or 12h"],
+      ["--until <when>", "An ISO date or an age such as 30d or 12h"],
+      ["--json", "Print the entries as JSON"],
+      ["--csv", "Print the entries as CSV"],
+      ["", `(journal: ${getAuditLogPath()})`],
+    ],
+    options: {
+      repo: { type: "string" },
+      secret: { type: "string" },
+      actor: { type: "string" },
+      operation: { type: "string" },
+      failed: { type: "boolean" },
+      since: { type: "string" },
+      until: { type: "string" },
+      json: { type: "boolean" },
+      csv: { type: "boolean" },
+    },
+    run: runHistory,
+  },
+  stale: {
+    usage:
+      "stale [--org <org>] [--repos <globs>] [--max-age <days>] [--kind <kind>] [--sort <order>] [--all] [--json | --csv] [--concurrency <n>]",
+    description: "Report secrets that weren't updated within a maximum age",
+    help: [
+      ["--org <org>", "Walk an organization's repositories instead of yours"],
+      ["--repos <globs>", "Only repositories that match, e.g. my-org/api-*"],
+      [
+        "--max-age <days>",
+        `Flag secrets older than this, e.g. 90, 90d or 12w (default: ${DEFAULT_MAX_AGE_DAYS})`,
+      ],
+      TARGET_HELP[1],
+      [
+        "--sort <order>",
+        `One of: ${STALENESS_SORTS.join(", ")} (default: age)`,
+      ],
+      ["--all", "List every secret, not just the stale ones"],
+      ["--json", "Print the secrets as JSON"],
+      ["--csv", "Print the secrets as CSV"],
+      ...BATCH_HELP,
+    ],
+    options: {
+      org: { type: "string" },
+      repos: { type: "string" },
+      "max-age": { type: "string", default: String(DEFAULT_MAX_AGE_DAYS) },
+      kind: TARGET_OPTIONS.kind,
+      sort: { type: "string", default: "age" },
+      all: { type: "boolean" },
+      json: { type: "boolean" },
+      csv: { type: "boolean" },
+      ...BATCH_OPTIONS,
+    },
+    run: runStale,
+  },
+  login: {
+    usage: "login [--no-browser]",
+    description: "Sign in interactively and save the token for later runs",
+    help: [],
+    options: {},
+    run: runLogin,
+  },
+  logout: {
+    usage: "logout",
+    description: "Remove the saved login",
+    help: [],
+    options: {},
+    run: runLogout,
+  },
+  whoami: {
+    usage: "whoami",
+    description: "Show the active account and where its token comes from",
+    help: [],
+    options: {},
+    run: runWhoami,
+  },
+};
+
+/**
+ * Whether the given arguments should be handled by a subcommand
+ * instead of the interactive menus
+ */
+export function isCommandInvocation(argv: string[]): boolean {
+  return argv.length > 0;
+}
+
+/**
+ * Take the flags that apply to every command and the interactive menus
+ * out of the arguments
+ */
+export function parseGlobalFlags(argv: string[]): {
+  argv: string[];
+  flags: GlobalFlags;
+} {
+  const flags: GlobalFlags = {
+    dryRun: false,
+    strict: false,
+    noBrowser: false,
+    host: {},
+  };
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s);
+
+    if (flag in GLOBAL_BOOLEAN_FLAGS && inline === undefined) {
+      flags[GLOBAL_BOOLEAN_FLAGS[flag as keyof typeof GLOBAL_BOOLEAN_FLAGS]] =
+        true;
+    } else if (flag in GLOBAL_VALUE_FLAGS) {
+      const value = inline ?? argv[i + 1];
+      // Without a value the flag is left for the command to reject
+      if (value === undefined || value.startsWith("-")) {
+        rest.push(argv[i]);
+        continue;
+      }
+      flags.host[GLOBAL_VALUE_FLAGS[flag as keyof typeof GLOBAL_VALUE_FLAGS]] =
+        value;
+      if (inline === undefined) {
+        i++;
+      }
+    } else {
+      rest.push(argv[i]);
+    }
+  }
+
+  return { argv: rest, flags };
+}
+
+export async function runCommand(
+  argv: string[],
+  flags: GlobalFlags = {
+    dryRun: false,
+    strict: false,
+    noBrowser: false,
+    host: {},
+  },
+): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (name === "help" || name === "--help" || name === "-h") {
+    const topic = rest[0] ? COMMANDS[rest[0]] : undefined;
+    console.log(topic ? commandHelp(topic) : generalHelp());
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(chalk.red(`Unknown command: ${name}\n`));
+    console.error(generalHelp());
+    return EXIT_CODES.USAGE;
+  }
+
+  try {
+    const { positionals, values } = parseArgs({
+      args: rest,
+      options: { ...HELP_OPTION, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+
+    if (values.help) {
+      console.log(commandHelp(command));
+      return EXIT_CODES.SUCCESS;
+    }
+
+    const code = await command.run({
+      positionals,
+      values,
+      flags,
+      host: resolveHost(flags.host),
+    });
+    if (flags.dryRun) {
+      console.error(chalk.cyan("Dry run: nothing was changed on GitHub."));
+    }
+    return code;
+  } catch (error) {
+    return reportError(error, name, command);
+  }
+}
+
+function reportError(
+  error: unknown,
+  name: string,
+  command: CommandDefinition,
+): number {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof UsageError || isParseArgsError(error)) {
+    console.error(chalk.red(`${message}\n`));
+    console.error(`Usage: gh-secrets-cli ${command.usage}`);
+    console.error(`Run "gh-secrets-cli ${name} --help" for details.`);
+    return EXIT_CODES.USAGE;
+  }
+
+  if (error instanceof AuthError || getStatus(error) === 401) {
+    console.error(chalk.red(`Authentication failed: ${message}`));
+    return EXIT_CODES.AUTH;
+  }
+
+  console.error(chalk.red(`Error: ${message}`));
+  if (error instanceof SecretTooLargeError) {
+    console.error(`\n${LARGE_SECRET_TIP}`);
+  }
+  return EXIT_CODES.FAILURE;
+}
+
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS");
+}
+
+function getStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function generalHelp(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((n) => n.length));
+  const lines = Object.entries(COMMANDS).map(
+    ([name, command]) => `  ${name.padEnd(width)}  ${command.description}`,
+  );
+
+  return [
+    "Usage: gh-secrets-cli [--dry-run] [--strict] [--host <name>] [command] [options]",
+    "",
+    "Run without a command to start the interactive menus.",
+    "",
+    "Global options:",
+    "  --dry-run          Print the writes that would be sent instead of sending them",
+    "  --strict           Don't upload secrets with lint warnings either",
+    "  --no-browser       Print the login URL instead of opening a browser",
+    "  --host <name>      GitHub Enterprise Server host (or GH_HOST)",
+    "  --api-url <url>    REST API URL (or GH_SECRETS_API_URL)",
+    "  --oauth-url <url>  Web URL for the device flow login (or GH_SECRETS_OAUTH_URL)",
+    "",
+    "Commands:",
+    ...lines,
+    "",
+    "Authentication (first match wins):",
+    "  1. A GitHub App: GH_APP_ID, GH_APP_PRIVATE_KEY (PEM or path) and",
+    "     optionally GH_APP_INSTALLATION_ID",
+    "  2. GH_TOKEN or GITHUB_TOKEN (GH_ENTERPRISE_TOKEN or",
+    "     GITHUB_ENTERPRISE_TOKEN for another --host)",
+    '  3. A login saved with "gh-secrets-cli login"',
+    "  4. The GitHub CLI's hosts.yml",
+    "",
+    "Exit codes:",
+    `  ${EXIT_CODES.SUCCESS}  Success`,
+    `  ${EXIT_CODES.FAILURE}  The GitHub request failed`,
+    `  ${EXIT_CODES.USAGE}  Invalid arguments`,
+    `  ${EXIT_CODES.AUTH}  Missing or rejected token`,
+    `  ${EXIT_CODES.PARTIAL}  Some secrets could not be uploaded`,
+    `  ${EXIT_CODES.STALE}  "stale" found secrets older than --max-age`,
+    "",
+    'Run "gh-secrets-cli <command> --help" for command options.',
+  ].join("\n");
+}
+
+function commandHelp(command: CommandDefinition): string {
+  const options: [string, string][] = [
+    ...command.help,
+    ["-h, --help", "Show this help"],
+  ];
+  const width = Math.max(...options.map(([flag]) => flag.length));
+
+  return [
+    `Usage: gh-secrets-cli ${command.usage}`,
+    "",
+    command.description,
+    "",
+    "Options:",
+    ...options.map(([flag, text]) => `  ${flag.padEnd(width)}  ${text}`),
+  ].join("\n");
+}
+
+/**
+ * A GitHub App from GH_APP_ID and GH_APP_PRIVATE_KEY, if they're set
+ */
+function readAppAuth(args: ParsedArgs): GitHubAppAuth | null {
+  let credentials;
+  try {
+    credentials = readAppCredentialsFromEnv();
+  } catch (error) {
+    throw new AuthError(error instanceof Error ? error.message : String(error));
+  }
+  return credentials
+    ? new GitHubAppAuth(credentials, { baseUrl: args.host.apiUrl })
+    : null;
+}
+
+/**
+ * Create an authenticated service, as a GitHub App when one is
+ * configured and otherwise from the token in the environment
+ */
+async function connect(args: ParsedArgs): Promise<GitHubService> {
+  const app = readAppAuth(args);
+  const resolved = app ? null : await resolveToken(args.host.hostname);
+  if (!app && !resolved) {
+    throw new AuthError(
+      isGitHubCom(args.host)
+        ? 'No token found. Set GH_TOKEN or GITHUB_TOKEN, run "gh-secrets-cli login" or "gh auth login".'
+        : `No token found for ${args.host.hostname}. Set GH_ENTERPRISE_TOKEN, run "gh-secrets-cli --host ${args.host.hostname} login" or "gh auth login --hostname ${args.host.hostname}".`,
+    );
+  }
+
+  const github = new GitHubService(app ?? resolved!.token, {
+    resolveReferences: !args.values.literal,
+    baseUrl: args.host.apiUrl,
+    dryRun: args.flags.dryRun,
+    onDryRun: printDryRunRequest,
+    onRetry: ({ status, attempt, delayMs }) =>
+      console.error(
+        chalk.yellow(
+          `⚠ GitHub answered ${status}; retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`,
+        ),
+      ),
+  });
+  await github.getAuthenticatedUser();
+  return github;
+}
+
+function parseRepository(value: string | undefined): {
+  owner: string;
+  repo: string;
+} {
+  const match = value?.match(/^([^/\s]+)\/([^/\s]+)$/);
+  if (!match) {
+    throw new UsageError(
+      value
+        ? `Invalid repository "${value}". Expected owner/repo.`
+        : "Missing repository argument (owner/repo).",
+    );
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Read the secrets file named by --file, printing parser warnings to stderr
+ */
+function readSecretsArgs(args: ParsedArgs): Record<string, string> {
+  const filePath = String(args.values.file);
+  const format = args.values.format;
+
+  if (
+    format !== undefined &&
+    !SECRET_FILE_FORMATS.includes(format as SecretFileFormat)
+  ) {
+    throw new UsageError(
+      `Unknown format "${format}". Use one of: ${SECRET_FILE_FORMATS.join(", ")}.`,
+    );
+  }
+
+  return readSecretsFile(filePath, {
+    format: format as SecretFileFormat | undefined,
+    expand: Boolean(args.values.expand),
+    onWarning: (warning) =>
+      console.error(chalk.yellow(`⚠ ${formatEnvWarning(warning, filePath)}`)),
+  });
+}
+
+function parseKind(args: ParsedArgs): SecretKind {
+  const kind = String(args.values.kind) as SecretKind;
+  if (!SECRET_KINDS.includes(kind)) {
+    throw new UsageError(
+      `Invalid --kind "${kind}". Expected one of: ${SECRET_KINDS.join(", ")}.`,
+    );
+  }
+  return kind;
+}
+
+function parseConcurrency(args: ParsedArgs): number {
+  const concurrency = Number(args.values.concurrency);
+  if (
+    !Number.isInteger(concurrency) ||
+    concurrency < 1 ||
+    concurrency > MAX_CONCURRENCY
+  ) {
+    throw new UsageError(
+      `--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}.`,
+    );
+  }
+  return concurrency;
+}
+
+/**
+ * Build the secret target from the repository argument, --env and --kind
+ */
+function parseTarget(args: ParsedArgs): SecretTarget {
+  const { owner, repo } = parseRepository(args.positionals[0]);
+  const kind = parseKind(args);
+
+  const environment = args.values.env;
+  if (environment !== undefined && !String(environment)) {
+    throw new UsageError("--env requires an environment name.");
+  }
+  if (environment && kind !== "actions") {
+    throw new UsageError("--env can only be used with --kind actions.");
+  }
+  if (args.values.variables && kind !== "actions") {
+    throw new UsageError("--variables can only be used with --kind actions.");
+  }
+
+  return environment
+    ? { owner, repo, environment: String(environment), kind }
+    : { owner, repo, kind };
+}
+
+/**
+ * Fill in the repository argument from the git checkout in the current
+ * directory when it's left out, i.e. when fewer than `count` arguments
+ * were given
+ */
+function defaultRepositoryArgument(args: ParsedArgs, count: number) {
+  if (args.positionals.length >= count) {
+    return;
+  }
+
+  const remote = args.values.remote as string | undefined;
+  const detected = detectRepository(remote, process.cwd(), args.host.hostname);
+  if (!detected) {
+    throw new UsageError(
+      remote
+        ? `Git remote "${remote}" doesn't point at a GitHub repository.`
+        : "Missing repository argument (owner/repo), and the current directory has no GitHub remote.",
+    );
+  }
+
+  const name = `${detected.owner}/${detected.repo}`;
+  console.error(chalk.gray(`Using ${name} from git remote ${detected.remote}`));
+  args.positionals = [name, ...args.positionals];
+}
+
+/**
+ * Print lint findings to stderr. Returns true when they stop the upload.
+ */
+function reportLintFindings(
+  findings: LintFinding[],
+  args: ParsedArgs,
+): boolean {
+  findings.forEach((finding) => console.error(formatLintFinding(finding)));
+
+  if (isBlocking(findings, args.flags.strict)) {
+    console.error(chalk.red(formatBlockedMessage(findings, "run")));
+    if (findings.some((finding) => finding.rule === "too-large")) {
+      console.error(`\n${LARGE_SECRET_TIP}`);
+    }
+    return true;
+  }
+  return false;
+}
+
+function expectPositionals(args: ParsedArgs, count: number) {
+  if (args.positionals.length > count) {
+    throw new UsageError(
+      `Unexpected argument: ${args.positionals.slice(count).join(" ")}`,
+    );
+  }
+}
+
+function parseSecretName(value: string | undefined): string {
+  if (!value) {
+    throw new UsageError("Missing secret name.");
+  }
+  if (!validateSecretName(value)) {
+    throw new UsageError(
+      `Invalid secret name "${value}". Use only letters, numbers, and underscores, don't start with a number or GITHUB_.`,
+    );
+  }
+  return value;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks)
+    .toString("utf-8")
+    .replace(/\r?\n$/, "");
+}
+
+async function runList(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 1);
+  expectPositionals(args, 1);
+  const target = parseTarget(args);
+
+  const github = await connect(args);
+
+  if (args.values.variables) {
+    const variables = await github.listVariables(target);
+    if (args.values.json) {
+      console.log(JSON.stringify(variables, null, 2));
+    } else {
+      variables.forEach((v) => console.log(`${v.name}=${v.value}`));
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const secrets = await github.listSecrets(target);
+
+  if (args.values.json) {
+    console.log(JSON.stringify(secrets, null, 2));
+  } else {
+    secrets.forEach((secret) => console.log(secret.name));
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runSet(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 2);
+  expectPositionals(args, 2);
+  const target = parseTarget(args);
+  const name = parseSecretName(args.positionals[1]);
+
+  const {
+    value,
+    "value-from-stdin": fromStdin,
+    "value-from-file": fromFile,
+    base64,
+  } = args.values;
+  const sources = [
+    value !== undefined,
+    Boolean(fromStdin),
+    fromFile !== undefined,
+  ];
+  if (sources.filter(Boolean).length !== 1) {
+    throw new UsageError(
+      "Pass exactly one of --value, --value-from-stdin or --value-from-file.",
+    );
+  }
+  if (base64 && fromFile === undefined) {
+    throw new UsageError("--base64 only works with --value-from-file.");
+  }
+
+  let secretValue: string;
+  if (fromFile !== undefined) {
+    const file = readSecretFile(String(fromFile), Boolean(base64));
+    console.error(
+      chalk.gray(
+        base64
+          ? `${fromFile}: ${formatBytes(file.fileBytes)}, ${formatBytes(file.valueBytes)} base64-encoded`
+          : `${fromFile}: ${formatBytes(file.fileBytes)}`,
+      ),
+    );
+    assertSecretSize(file.value);
+    // File content is always literal, even if it starts with @file: etc.
+    secretValue = args.values.literal ? file.value : escapeValue(file.value);
+  } else {
+    secretValue = fromStdin ? await readStdin() : String(value);
+  }
+
+  if (reportLintFindings(lintSecrets({ [name]: secretValue }), args)) {
+    return EXIT_CODES.FAILURE;
+  }
+
+  const github = await connect(args);
+  await github.createOrUpdateSecret(target, name, secretValue);
+  console.error(
+    chalk.green(`✓ Secret "${name}" set on ${formatTarget(target)}`),
+  );
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runDelete(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 2);
+  expectPositionals(args, 2);
+  const target = parseTarget(args);
+  const name = parseSecretName(args.positionals[1]);
+
+  if (!args.values.yes) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError("Refusing to delete without --yes.");
+    }
+
+    const confirmed = await confirm({
+      message: `Delete "${name}" from ${formatTarget(target)}?`,
+      default: false,
+    });
+    if (!confirmed) {
+      console.error(chalk.gray("Deletion cancelled."));
+      return EXIT_CODES.FAILURE;
+    }
+  }
+
+  const github = await connect(args);
+  await github.deleteSecret(target, name);
+  console.error(
+    chalk.green(`✓ Secret "${name}" deleted from ${formatTarget(target)}`),
+  );
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runUpload(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 1);
+  expectPositionals(args, 1);
+  const target = parseTarget(args);
+  const options = { concurrency: parseConcurrency(args) };
+  const filePath = String(args.values.file);
+
+  const { valid, invalid } = filterValidSecrets(readSecretsArgs(args));
+
+  invalid.forEach((name) =>
+    console.error(chalk.yellow(`⚠ Skipping invalid secret name: ${name}`)),
+  );
+
+  if (Object.keys(valid).length === 0) {
+    console.error(chalk.red(`No valid secrets found in ${filePath}.`));
+    return EXIT_CODES.FAILURE;
+  }
+
+  const { secrets, variables } = splitSecretsAndVariables(
+    valid,
+    parseGlobList(String(args.values.variables ?? "")),
+  );
+
+  if (
+    reportLintFindings(lintSecrets(secrets, { sourceFile: filePath }), args)
+  ) {
+    return EXIT_CODES.FAILURE;
+  }
+
+  const github = await connect(args);
+  const secretResult = await github.batchCreateSecrets(
+    target,
+    secrets,
+    options,
+  );
+  const variableResult = await github.batchCreateVariables(
+    target,
+    variables,
+    options,
+  );
+
+  const success = [...secretResult.success, ...variableResult.success];
+  const failed = [...secretResult.failed, ...variableResult.failed];
+
+  secretResult.success.forEach((name) => console.log(chalk.green(`✓ ${name}`)));
+  variableResult.success.forEach((name) =>
+    console.log(chalk.green(`✓ ${name} (variable)`)),
+  );
+  failed.forEach(({ name, error }) =>
+    console.log(chalk.red(`✗ ${name}: ${error}`)),
+  );
+
+  if (failed.length === 0) {
+    return EXIT_CODES.SUCCESS;
+  }
+  return success.length > 0 ? EXIT_CODES.PARTIAL : EXIT_CODES.FAILURE;
+}
+
+async function runSync(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 1);
+  expectPositionals(args, 1);
+  const target = parseTarget(args);
+  const concurrency = parseConcurrency(args);
+  const prune = Boolean(args.values.prune);
+
+  const local = readSecretsArgs(args);
+
+  const github = await connect(args);
+  const plan = planSync(local, await github.listSecrets(target));
+
+  formatSyncPlan(plan, prune).forEach((line) => console.log(line));
+
+  if (!hasChanges(plan, prune)) {
+    console.error(chalk.green("✓ Already in sync."));
+    return EXIT_CODES.SUCCESS;
+  }
+  if (args.values.plan) {
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (!args.values.yes) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError("Refusing to apply the plan without --yes.");
+    }
+
+    const confirmed = await confirm({
+      message: prune
+        ? `Apply the plan to ${formatTarget(target)}, deleting ${plan.remoteOnly.length} secret(s)?`
+        : `Apply the plan to ${formatTarget(target)}?`,
+      default: false,
+    });
+    if (!confirmed) {
+      console.error(chalk.gray("Sync cancelled."));
+      return EXIT_CODES.FAILURE;
+    }
+  }
+
+  const { uploaded, deleted } = await applySyncPlan(
+    github,
+    target,
+    plan,
+    prune,
+    { concurrency },
+  );
+
+  uploaded.success.forEach((name) => console.log(chalk.green(`✓ ${name}`)));
+  deleted.success.forEach((name) =>
+    console.log(chalk.green(`✓ ${name} (deleted)`)),
+  );
+
+  const failed = [...uploaded.failed, ...deleted.failed];
+  failed.forEach(({ name, error }) =>
+    console.log(chalk.red(`✗ ${name}: ${error}`)),
+  );
+
+  if (failed.length === 0) {
+    return EXIT_CODES.SUCCESS;
+  }
+  return uploaded.success.length + deleted.success.length > 0
+    ? EXIT_CODES.PARTIAL
+    : EXIT_CODES.FAILURE;
+}
+
+async function runFanOut(args: ParsedArgs): Promise<number> {
+  const kind = parseKind(args);
+  const concurrency = parseConcurrency(args);
+  const { name, value, file, "value-from-stdin": fromStdin } = args.values;
+
+  if ((name === undefined) === (file === undefined)) {
+    throw new UsageError("Pass exactly one of --name or --file.");
+  }
+  if (name !== undefined && (value !== undefined) === Boolean(fromStdin)) {
+    throw new UsageError("Pass exactly one of --value or --value-from-stdin.");
+  }
+
+  const repositories = args.positionals.map((positional) => {
+    const { owner, repo } = parseRepository(positional);
+    return `${owner}/${repo}`;
+  });
+
+  if (args.values["repo-file"] !== undefined) {
+    repositories.push(...readRepositoryList(String(args.values["repo-file"])));
+  }
+
+  let secrets: Record<string, string>;
+  if (name !== undefined) {
+    const secretName = parseSecretName(String(name));
+    secrets = {
+      [secretName]: fromStdin ? await readStdin() : String(value),
+    };
+  } else {
+    const { valid, invalid } = filterValidSecrets(readSecretsArgs(args));
+    invalid.forEach((invalidName) =>
+      console.error(
+        chalk.yellow(`⚠ Skipping invalid secret name: ${invalidName}`),
+      ),
+    );
+    secrets = valid;
+  }
+
+  if (Object.keys(secrets).length === 0) {
+    console.error(chalk.red(`No valid secrets found in ${file}.`));
+    return EXIT_CODES.FAILURE;
+  }
+
+  const github = await connect(args);
+
+  if (args.values.repos !== undefined || args.values.topic !== undefined) {
+    let matches = await github.listUserRepositories();
+    if (args.values.repos !== undefined) {
+      matches = selectByGlob(matches, parseGlobList(String(args.values.repos)));
+    }
+    if (args.values.topic !== undefined) {
+      matches = selectByTopic(matches, String(args.values.topic));
+    }
+    repositories.push(...matches.map((r) => r.full_name));
+  }
+
+  const targets = [...new Set(repositories)];
+  if (targets.length === 0) {
+    throw new UsageError(
+      "No repositories selected. Pass owner/repo names, --repos, --topic or --repo-file.",
+    );
+  }
+
+  // Resolve references once so every repository gets the same value
+  if (!args.values.literal) {
+    secrets = resolveAllReferences(secrets);
+  }
+
+  const results = await fanOutSecrets(github, targets, secrets, {
+    kind,
+    concurrency,
+    onRepository: (repository, index) =>
+      console.error(
+        chalk.gray(`[${index + 1}/${targets.length}] ${repository}`),
+      ),
+  });
+
+  formatFanOutMatrix(results, Object.keys(secrets)).forEach((line) =>
+    console.log(line),
+  );
+
+  const { partial, failed } = summarizeFanOut(results);
+  if (partial === 0 && failed === 0) {
+    return EXIT_CODES.SUCCESS;
+  }
+  return failed === results.length ? EXIT_CODES.FAILURE : EXIT_CODES.PARTIAL;
+}
+
+async function runRotate(args: ParsedArgs): Promise<number> {
+  defaultRepositoryArgument(args, 2);
+  const kind = parseKind(args);
+  const concurrency = parseConcurrency(args);
+  const name = parseSecretName(args.positionals.at(-1));
+  const repositories = [...new Set(args.positionals.slice(0, -1))].map(
+    parseRepository,
+  );
+
+  const format = String(args.values.format) as SecretFormat;
+  if (!SECRET_FORMATS.includes(format)) {
+    throw new UsageError(
+      `Invalid --format "${format}". Expected one of: ${SECRET_FORMATS.join(", ")}.`,
+    );
+  }
+  const length =
+    args.values.length === undefined
+      ? DEFAULT_LENGTHS[format]
+      : Number(args.values.length);
+  if (!Number.isInteger(length) || length < 1 || length > MAX_LENGTH) {
+    throw new UsageError(
+      `--length must be a whole number from 1 to ${MAX_LENGTH}.`,
+    );
+  }
+
+  const environments = (args.values.env ?? []) as string[];
+  if (environments.some((environment) => !environment)) {
+    throw new UsageError("--env requires an environment name.");
+  }
+  if (environments.length > 0 && kind !== "actions") {
+    throw new UsageError("--env can only be used with --kind actions.");
+  }
+  const targets: SecretTarget[] = repositories.flatMap(({ owner, repo }) =>
+    environments.length > 0
+      ? environments.map((environment) => ({ owner, repo, environment, kind }))
+      : [{ owner, repo, kind }],
+  );
+
+  const github = await connect(args);
+  const { value, entropyBits } = await generateSecretValue(format, length);
+  console.error(
+    chalk.gray(
+      `Generated a new value for ${name}: ${describeFormat(format, length)}, ${entropyBits} bits`,
+    ),
+  );
+
+  const result = await rollOutSecret(github, targets, name, value, {
+    concurrency,
+  });
+  result.success.forEach((label) => console.error(chalk.green(`✓ ${label}`)));
+  result.failed.forEach(({ name: label, error }) =>
+    console.error(chalk.red(`✗ ${label}: ${error}`)),
+  );
+
+  if (args.values.print) {
+    console.log(value);
+  }
+
+  if (result.failed.length > 0) {
+    if (args.values.pipe !== undefined) {
+      console.error(
+        chalk.yellow(
+          `⚠ Not running --pipe: ${name} wasn't written everywhere, so the targets now disagree. Run rotate again.`,
+        ),
+      );
+    }
+    return result.success.length === 0
+      ? EXIT_CODES.FAILURE
+      : EXIT_CODES.PARTIAL;
+  }
+
+  if (args.values.pipe !== undefined) {
+    if (github.isDryRun()) {
+      console.error(chalk.cyan(`[dry run] not piped to ${args.values.pipe}`));
+    } else {
+      try {
+        pipeToCommand(String(args.values.pipe), value);
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `✗ ${error instanceof Error ? error.message : String(error)}. ${name} was already changed on GitHub; update the consumer by hand or rotate again.`,
+          ),
+        );
+        return EXIT_CODES.FAILURE;
+      }
+      console.error(
+        chalk.green(`✓ Passed the new value to ${args.values.pipe}`),
+      );
+    }
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runPlan(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+  const manifest = loadManifest(String(args.values.manifest));
+
+  const github = await connect(args);
+  const plans = await planManifest(github, manifest);
+
+  formatManifestPlan(plans).forEach((line) => console.log(line));
+  return plans.some((plan) => plan.problems.length > 0)
+    ? EXIT_CODES.FAILURE
+    : EXIT_CODES.SUCCESS;
+}
+
+async function runApply(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+  const concurrency = parseConcurrency(args);
+  const manifest = loadManifest(String(args.values.manifest));
+
+  const github = await connect(args);
+  const plans = await planManifest(github, manifest);
+
+  formatManifestPlan(plans).forEach((line) => console.log(line));
+
+  if (plans.some((plan) => plan.problems.length > 0)) {
+    console.error(chalk.red("Fix the problems marked with ! before applying."));
+    return EXIT_CODES.FAILURE;
+  }
+  if (plans.every((plan) => plan.changes.length === 0)) {
+    console.error(chalk.green("✓ Nothing to apply."));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (!args.values.yes) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError("Refusing to apply the plan without --yes.");
+    }
+
+    const confirmed = await confirm({
+      message: "Apply this plan?",
+      default: false,
+    });
+    if (!confirmed) {
+      console.error(chalk.gray("Apply cancelled."));
+      return EXIT_CODES.FAILURE;
+    }
+  }
+
+  const results = await applyManifestPlan(github, manifest, plans, {
+    concurrency,
+  });
+
+  let succeeded = 0;
+  let failed = 0;
+  for (const { label, result } of results) {
+    succeeded += result.success.length;
+    failed += result.failed.length;
+    result.success.forEach((name) =>
+      console.log(chalk.green(`✓ ${label}: ${name}`)),
+    );
+    result.failed.forEach(({ name, error }) =>
+      console.log(chalk.red(`✗ ${label}: ${name}: ${error}`)),
+    );
+  }
+
+  if (failed === 0) {
+    return EXIT_CODES.SUCCESS;
+  }
+  return succeeded > 0 ? EXIT_CODES.PARTIAL : EXIT_CODES.FAILURE;
+}
+
+async function runHistory(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+  const { values } = args;
+
+  if (values.json && values.csv) {
+    throw new UsageError("Pass only one of --json or --csv.");
+  }
+  const operation = values.operation as AuditOperation | undefined;
+  if (operation !== undefined && !AUDIT_OPERATIONS.includes(operation)) {
+    throw new UsageError(
+      `Invalid --operation "${operation}". Expected one of: ${AUDIT_OPERATIONS.join(", ")}.`,
+    );
+  }
+
+  const entries = filterAuditEntries(readAuditLog(), {
+    targets: values.repo ? parseGlobList(String(values.repo)) : undefined,
+    secrets: values.secret ? parseGlobList(String(values.secret)) : undefined,
+    actor: values.actor as string | undefined,
+    operation,
+    failedOnly: Boolean(values.failed),
+    since: parseTimeOption(args, "since"),
+    until: parseTimeOption(args, "until"),
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (values.csv) {
+    console.log(formatAuditCsv(entries));
+  } else if (entries.length === 0) {
+    console.error(chalk.gray("No matching changes."));
+  } else {
+    entries.forEach((entry) => {
+      const line = formatAuditEntry(entry);
+      console.log(entry.outcome === "success" ? line : chalk.red(line));
+    });
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runStale(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+  const { values } = args;
+  const kind = parseKind(args);
+  const concurrency = parseConcurrency(args);
+
+  if (values.json && values.csv) {
+    throw new UsageError("Pass only one of --json or --csv.");
+  }
+  const maxAgeDays = parseMaxAge(String(values["max-age"]));
+  if (maxAgeDays === null) {
+    throw new UsageError(
+      `Invalid --max-age "${values["max-age"]}". Use a number of days such as 90, 90d or 12w.`,
+    );
+  }
+  const sort = String(values.sort) as StalenessSort;
+  if (!STALENESS_SORTS.includes(sort)) {
+    throw new UsageError(
+      `Invalid --sort "${sort}". Expected one of: ${STALENESS_SORTS.join(", ")}.`,
+    );
+  }
+
+  const github = await connect(args);
+  let repos = filterRepositories(
+    values.org
+      ? await github.listOrgRepositories(String(values.org))
+      : await github.listUserRepositories(),
+    DEFAULT_REPOSITORY_FILTERS,
+  );
+  if (values.repos !== undefined) {
+    repos = selectByGlob(repos, parseGlobList(String(values.repos)));
+  }
+
+  const report = await collectSecretAges(
+    github,
+    repos.map((r) => r.full_name),
+    {
+      kind,
+      maxAgeDays,
+      concurrency,
+      onProgress: (done, total) => {
+        if (process.stderr.isTTY) {
+          process.stderr.write(
+            `\r${chalk.gray(`Checked ${done}/${total} repositories`)}`,
+          );
+        }
+      },
+    },
+  );
+  if (process.stderr.isTTY) {
+    process.stderr.write("\n");
+  }
+
+  report.failed.forEach(({ repository, error }) =>
+    console.error(chalk.yellow(`⚠ Skipped ${repository}: ${error}`)),
+  );
+
+  const stale = report.secrets.filter((secret) => secret.stale);
+  const shown = sortSecretAges(values.all ? report.secrets : stale, sort);
+
+  if (values.json) {
+    console.log(JSON.stringify(shown, null, 2));
+  } else if (values.csv) {
+    console.log(formatStalenessCsv(shown));
+  } else if (shown.length > 0) {
+    formatStalenessTable(shown).forEach((line) => console.log(line));
+  }
+
+  console.error(
+    stale.length > 0
+      ? chalk.red(
+          `${stale.length} of ${report.secrets.length} secrets in ${repos.length} repositories are older than ${maxAgeDays} days.`,
+        )
+      : chalk.green(
+          `✓ All ${report.secrets.length} secrets in ${repos.length} repositories were updated in the last ${maxAgeDays} days.`,
+        ),
+  );
+
+  if (stale.length > 0) {
+    return EXIT_CODES.STALE;
+  }
+  return report.failed.length > 0 ? EXIT_CODES.PARTIAL : EXIT_CODES.SUCCESS;
+}
+
+function parseTimeOption(
+  args: ParsedArgs,
+  name: "since" | "until",
+): Date | undefined {
+  const value = args.values[name];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = parseAuditTime(String(value));
+  if (!time) {
+    throw new UsageError(
+      `Invalid --${name} "${value}". Use an ISO date or an age such as 30d.`,
+    );
+  }
+  return time;
+}
+
+async function runLogin(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+  if (!process.stdin.isTTY) {
+    throw new UsageError("login needs an interactive terminal.");
+  }
+
+  await new SecretManagerCLI({
+    host: args.flags.host,
+    noBrowser: args.flags.noBrowser,
+  }).login();
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runLogout(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+
+  if (deleteStoredCredential()) {
+    console.error(chalk.green(`✓ Removed saved login ${getCredentialPath()}`));
+  } else {
+    console.error(chalk.gray("No saved login found."));
+  }
+
+  const remaining = await resolveToken(args.host.hostname);
+  if (remaining) {
+    console.error(
+      chalk.yellow(
+        `⚠ A token is still available from ${describeTokenSource(remaining)}.`,
+      ),
+    );
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+async function runWhoami(args: ParsedArgs): Promise<number> {
+  expectPositionals(args, 0);
+
+  const app = readAppAuth(args);
+  if (app) {
+    const user = await new GitHubService(app, {
+      baseUrl: args.host.apiUrl,
+    }).getAuthenticatedUser();
+    console.log(user.login);
+    console.error(
+      chalk.gray(
+        `GitHub App installation ${app.getInstallationId()} from GH_APP_ID`,
+      ),
+    );
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const resolved = await resolveToken(args.host.hostname);
+  if (!resolved) {
+    throw new AuthError(`Not logged in to ${args.host.hostname}.`);
+  }
+
+  const user = await new GitHubService(resolved.token, {
+    baseUrl: args.host.apiUrl,
+  }).getAuthenticatedUser();
+  console.log(user.login);
+  console.error(
+    chalk.gray(
+      `Token from ${describeTokenSource(resolved)} for ${args.host.hostname}`,
+    ),
+  );
+  return EXIT_CODES.SUCCESS;
+}
@@ -0,0 +1,291 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import sodium from "libsodium-wrappers";
+
+export type TokenSource = "environment" | "stored" | "gh-cli" | "prompt";
+
+export interface ResolvedToken {
+  token: string;
+  source: TokenSource;
+  /** Where exactly the token came from, e.g. "GH_TOKEN" or a file path */
+  detail: string;
+}
+
+interface StoredCredential {
+  version: 1;
+  login: string;
+  /** Missing in logins saved before Enterprise Server support */
+  host?: string;
+  created_at: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * Directory holding this tool's configuration and saved credentials
+ */
+export function getConfigDir(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME ||
+    (process.platform === "win32" && process.env.APPDATA) ||
+    join(homedir(), ".config");
+  return join(base, "gh-secrets-cli");
+}
+
+export function getCredentialPath(): string {
+  return join(getConfigDir(), "credentials.json");
+}
+
+function getKeyPath(): string {
+  return join(getConfigDir(), "credentials.key");
+}
+
+/**
+ * Human-readable description of where a token came from
+ */
+export function describeTokenSource(resolved: ResolvedToken): string {
+  switch (resolved.source) {
+    case "environment":
+      return `environment variable ${resolved.detail}`;
+    case "stored":
+      return `saved login (${resolved.detail})`;
+    case "gh-cli":
+      return `GitHub CLI (${resolved.detail})`;
+    case "prompt":
+      return resolved.detail;
+  }
+}
+
+/**
+ * Read a token from GH_TOKEN or GITHUB_TOKEN. An Enterprise Server only
+ * gets GH_ENTERPRISE_TOKEN or GITHUB_ENTERPRISE_TOKEN, so a github.com
+ * token is never sent to another host.
+ */
+export function readEnvironmentToken(
+  host = "github.com",
+): ResolvedToken | null {
+  const names =
+    host === "github.com"
+      ? ["GH_TOKEN", "GITHUB_TOKEN"]
+      : ["GH_ENTERPRISE_TOKEN", "GITHUB_ENTERPRISE_TOKEN"];
+  for (const name of names) {
+    const token = process.env[name];
+    if (token) {
+      return { token, source: "environment", detail: name };
+    }
+  }
+  return null;
+}
+
+function getGhConfigDir(): string {
+  if (process.env.GH_CONFIG_DIR) {
+    return process.env.GH_CONFIG_DIR;
+  }
+  if (process.env.XDG_CONFIG_HOME) {
+    return join(process.env.XDG_CONFIG_HOME, "gh");
+  }
+  if (process.platform === "win32" && process.env.APPDATA) {
+    return join(process.env.APPDATA, "GitHub CLI");
+  }
+  return join(homedir(), ".config", "gh");
+}
+
+/**
+ * Extract the token of one host from the GitHub CLI's hosts.yml.
+ * Only the host's direct keys are read, which is all this file uses;
+ * tokens kept in the system keyring are not visible here.
+ */
+export function parseGhHosts(content: string, host: string): string | null {
+  let inHost = false;
+  let childIndent = -1;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) {
+      inHost = trimmed.replace(/:$/, "").replace(/^["']|["']$/g, "") === host;
+      childIndent = -1;
+      continue;
+    }
+
+    if (!inHost) {
+      continue;
+    }
+    if (childIndent === -1) {
+      childIndent = indent;
+    }
+    if (indent !== childIndent) {
+      continue;
+    }
+
+    const match = trimmed.match(/^oauth_token:\s*["']?([^"'\s]+)["']?\s*$/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reuse the token the GitHub CLI stored in its hosts.yml
+ */
+export function readGhCliToken(host = "github.com"): ResolvedToken | null {
+  const path = join(getGhConfigDir(), "hosts.yml");
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const token = parseGhHosts(readFileSync(path, "utf-8"), host);
+    return token ? { token, source: "gh-cli", detail: path } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a file readable only by the current user
+ */
+function writePrivateFile(path: string, content: string) {
+  mkdirSync(getConfigDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(path, content, { mode: 0o600 });
+  // The mode only applies to new files, so tighten existing ones too
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Load the encryption key for saved credentials, creating it if needed.
+ * The key lives in a separate file so the credential file alone is useless
+ * if it ends up in a backup or a synced folder.
+ */
+async function getEncryptionKey(create: boolean): Promise<Uint8Array | null> {
+  await sodium.ready;
+  const keyPath = getKeyPath();
+
+  if (existsSync(keyPath)) {
+    return sodium.from_base64(
+      readFileSync(keyPath, "utf-8").trim(),
+      sodium.base64_variants.ORIGINAL,
+    );
+  }
+  if (!create) {
+    return null;
+  }
+
+  const key = sodium.crypto_secretbox_keygen();
+  writePrivateFile(
+    keyPath,
+    sodium.to_base64(key, sodium.base64_variants.ORIGINAL),
+  );
+  return key;
+}
+
+/**
+ * Encrypt and save a token for future sessions
+ */
+export async function saveCredential(
+  token: string,
+  login: string,
+  host = "github.com",
+): Promise<string> {
+  const key = (await getEncryptionKey(true))!;
+  const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+  const ciphertext = sodium.crypto_secretbox_easy(
+    sodium.from_string(token),
+    nonce,
+    key,
+  );
+
+  const credential: StoredCredential = {
+    version: 1,
+    login,
+    host,
+    created_at: new Date().toISOString(),
+    nonce: sodium.to_base64(nonce, sodium.base64_variants.ORIGINAL),
+    ciphertext: sodium.to_base64(ciphertext, sodium.base64_variants.ORIGINAL),
+  };
+
+  const path = getCredentialPath();
+  writePrivateFile(path, JSON.stringify(credential, null, 2));
+  return path;
+}
+
+/**
+ * Load and decrypt the saved token, if there is one for the host
+ */
+export async function loadStoredCredential(
+  host = "github.com",
+): Promise<ResolvedToken | null> {
+  const path = getCredentialPath();
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const key = await getEncryptionKey(false);
+  if (!key) {
+    return null;
+  }
+
+  try {
+    const credential: StoredCredential = JSON.parse(
+      readFileSync(path, "utf-8"),
+    );
+    if ((credential.host ?? "github.com") !== host) {
+      return null;
+    }
+    const token = sodium.crypto_secretbox_open_easy(
+      sodium.from_base64(
+        credential.ciphertext,
+        sodium.base64_variants.ORIGINAL,
+      ),
+      sodium.from_base64(credential.nonce, sodium.base64_variants.ORIGINAL),
+      key,
+    );
+    return {
+      token: sodium.to_string(token),
+      source: "stored",
+      detail: credential.login,
+    };
+  } catch {
+    // Corrupt file or a key that doesn't match; treat as logged out
+    return null;
+  }
+}
+
+/**
+ * Remove the saved credential and its key
+ */
+export function deleteStoredCredential(): boolean {
+  const path = getCredentialPath();
+  const existed = existsSync(path);
+  rmSync(path, { force: true });
+  rmSync(getKeyPath(), { force: true });
+  return existed;
+}
+
+/**
+ * Find a token for the host without prompting: the environment first,
+ * then a saved login, then the GitHub CLI
+ */
+export async function resolveToken(
+  host = "github.com",
+): Promise<ResolvedToken | null> {
+  return (
+    readEnvironmentToken(host) ??
+    (await loadStoredCredential(host)) ??
+    readGhCliToken(host)
+  );
+}
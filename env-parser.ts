@@ -1,47 +1,234 @@
 import { readFileSync } from "fs";
+import { matchesAnyGlob } from "./glob.js";
+
+export interface EnvParseOptions {
+  /** Replace `${VAR}` and `$VAR` in unquoted and double-quoted values */
+  expand?: boolean;
+  /** Called for problems that don't stop parsing, e.g. duplicate keys */
+  onWarning?: (warning: EnvWarning) => void;
+}
+
+export interface EnvWarning {
+  line: number;
+  message: string;
+}
 
 /**
- * Parse .env file content into key-value pairs
+ * A .env file that can't be parsed. The message never includes the
+ * offending line, since it may hold a secret.
  */
-export function parseEnvFile(content: string): Record<string, string> {
-  const secrets: Record<string, string> = {};
-  const lines = content.split("\n");
+export class EnvParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly file?: string,
+  ) {
+    super(file ? `${file}:${line}: ${reason}` : `Line ${line}: ${reason}`);
+    this.name = "EnvParseError";
+  }
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  '"': '"',
+  "\\": "\\",
+  $: "$",
+};
+
+/**
+ * Parse .env file content into key-value pairs, following dotenv:
+ *
+ * - `export KEY=value` is accepted
+ * - unquoted values end at a ` #` comment and are trimmed
+ * - single- and backtick-quoted values are taken literally
+ * - double-quoted values support `\n`, `\r`, `\t`, `\"`, `\\` and `\$`
+ * - quoted values may span several lines
+ *
+ * With `expand`, `${VAR}`, `${VAR:-default}` and `$VAR` are replaced by
+ * earlier keys in the file or, failing that, the process environment.
+ */
+export function parseEnvFile(
+  content: string,
+  options: EnvParseOptions = {},
+): Record<string, string> {
+  // Without a prototype, keys like `toString` or `__proto__` are plain keys
+  const secrets: Record<string, string> = Object.create(null);
+  const definedOn = new Map<string, number>();
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i].trimStart();
 
     // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith("#")) {
+    if (!line.trim() || line.startsWith("#")) {
       continue;
     }
 
-    // Parse KEY=VALUE format
-    const match = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
-    if (match) {
-      const [, key, value] = match;
-
-      // Remove quotes if present
-      let cleanValue = value.trim();
-      if (
-        (cleanValue.startsWith('"') && cleanValue.endsWith('"')) ||
-        (cleanValue.startsWith("'") && cleanValue.endsWith("'"))
-      ) {
-        cleanValue = cleanValue.slice(1, -1);
+    const match = line.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+    if (!match) {
+      throw new EnvParseError("Expected KEY=VALUE", lineNumber);
+    }
+
+    const [, key, rest] = match;
+    const warn = (message: string) =>
+      options.onWarning?.({ line: lineNumber, message });
+    const lookup = (name: string) =>
+      Object.hasOwn(secrets, name)
+        ? secrets[name]
+        : Object.hasOwn(process.env, name)
+          ? process.env[name]
+          : undefined;
+
+    let value: string;
+    const quote = rest[0];
+
+    if (quote === '"' || quote === "'" || quote === "`") {
+      let body = rest.slice(1);
+      let end = findClosingQuote(body, quote);
+
+      while (end === -1) {
+        if (++i >= lines.length) {
+          throw new EnvParseError(
+            `Missing closing ${quote} for ${key}`,
+            lineNumber,
+          );
+        }
+        body += "\n" + lines[i];
+        end = findClosingQuote(body, quote);
+      }
+
+      const trailing = body.slice(end + 1).trim();
+      if (trailing && !trailing.startsWith("#")) {
+        throw new EnvParseError(
+          `Unexpected text after the closing quote of ${key}`,
+          i + 1,
+        );
       }
 
-      secrets[key] = cleanValue;
+      value =
+        quote === '"'
+          ? interpolate(body.slice(0, end), true, options.expand, lookup, warn)
+          : body.slice(0, end);
+    } else {
+      const raw = rest.startsWith("#") ? "" : rest.replace(/\s+#.*$/, "");
+      value = interpolate(raw.trim(), false, options.expand, lookup, warn);
     }
+
+    const previous = definedOn.get(key);
+    if (previous !== undefined) {
+      warn(
+        `Duplicate key ${key} (first defined on line ${previous}); the last value wins`,
+      );
+    }
+
+    definedOn.set(key, lineNumber);
+    secrets[key] = value;
   }
 
   return secrets;
 }
 
+/**
+ * Whether a value looks like it contains `${VAR}` or `$VAR` references
+ */
+export function hasVariableReferences(value: string): boolean {
+  return /\$\{?[A-Za-z_]/.test(value);
+}
+
+/**
+ * Index of the quote that closes a value, or -1 if it isn't closed yet.
+ * Only double quotes can be escaped.
+ */
+function findClosingQuote(body: string, quote: string): number {
+  for (let i = 0; i < body.length; i++) {
+    if (quote === '"' && body[i] === "\\") {
+      i++;
+    } else if (body[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply escape sequences and variable expansion in a single pass, so
+ * that an escaped `\$` is never expanded
+ */
+function interpolate(
+  raw: string,
+  escapes: boolean,
+  expand: boolean | undefined,
+  lookup: (name: string) => string | undefined,
+  warn: (message: string) => void,
+): string {
+  let result = "";
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (escapes && char === "\\" && i + 1 < raw.length) {
+      const next = raw[i + 1];
+      result += DOUBLE_QUOTE_ESCAPES[next] ?? char + next;
+      i++;
+      continue;
+    }
+
+    if (expand && char === "$") {
+      const reference = raw
+        .slice(i)
+        .match(/^\$(?:\{([A-Za-z_]\w*)(?::-([^}]*))?\}|([A-Za-z_]\w*))/);
+
+      if (reference) {
+        const [text, braced, fallback, bare] = reference;
+        const name = braced ?? bare;
+        const resolved = lookup(name);
+
+        if (resolved !== undefined && resolved !== "") {
+          result += resolved;
+        } else if (fallback !== undefined) {
+          result += fallback;
+        } else if (resolved === undefined) {
+          warn(`${name} is not defined; expanded to an empty string`);
+        }
+
+        i += text.length - 1;
+        continue;
+      }
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
 /**
  * Read and parse an .env file from disk
  */
-export function readEnvFile(filePath: string): Record<string, string> {
+export function readEnvFile(
+  filePath: string,
+  options: EnvParseOptions = {},
+): Record<string, string> {
   const content = readFileSync(filePath, "utf-8");
-  return parseEnvFile(content);
+
+  try {
+    return parseEnvFile(content, options);
+  } catch (error) {
+    if (error instanceof EnvParseError) {
+      throw new EnvParseError(error.reason, error.line, filePath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format a parser warning for display
+ */
+export function formatEnvWarning(warning: EnvWarning, filePath: string) {
+  return `${filePath}:${warning.line}: ${warning.message}`;
 }
 
 /**
@@ -63,7 +250,7 @@ export function filterValidSecrets(secrets: Record<string, string>): {
   valid: Record<string, string>;
   invalid: string[];
 } {
-  const valid: Record<string, string> = {};
+  const valid: Record<string, string> = Object.create(null);
   const invalid: string[] = [];
 
   for (const [name, value] of Object.entries(secrets)) {
@@ -76,3 +263,28 @@ export function filterValidSecrets(secrets: Record<string, string>): {
 
   return { valid, invalid };
 }
+
+/**
+ * Split entries into secrets and configuration variables.
+ * Names matching any of the variable globs become variables.
+ */
+export function splitSecretsAndVariables(
+  entries: Record<string, string>,
+  variablePatterns: string[],
+): {
+  secrets: Record<string, string>;
+  variables: Record<string, string>;
+} {
+  const secrets: Record<string, string> = {};
+  const variables: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(entries)) {
+    if (matchesAnyGlob(name, variablePatterns)) {
+      variables[name] = value;
+    } else {
+      secrets[name] = value;
+    }
+  }
+
+  return { secrets, variables };
+}
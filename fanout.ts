@@ -0,0 +1,174 @@
+import { readFileSync } from "fs";
+import chalk from "chalk";
+import {
+  BatchOptions,
+  BatchResult,
+  GitHubService,
+  Repository,
+  SecretKind,
+} from "./github.js";
+import { matchesAnyGlob } from "./glob.js";
+
+/**
+ * Outcome of writing the same secrets to one repository
+ */
+export interface FanOutResult {
+  repository: string;
+  result: BatchResult;
+}
+
+export interface FanOutOptions extends BatchOptions {
+  kind?: SecretKind;
+  /** Called before writing to each repository */
+  onRepository?: (repository: string, index: number) => void;
+}
+
+/**
+ * Repositories whose full name (`owner/repo`) or plain name matches
+ * any of the globs
+ */
+export function selectByGlob(
+  repos: Repository[],
+  patterns: string[],
+): Repository[] {
+  return repos.filter(
+    (r) =>
+      matchesAnyGlob(r.full_name, patterns, "i") ||
+      matchesAnyGlob(r.name, patterns, "i"),
+  );
+}
+
+/**
+ * Repositories tagged with the given topic
+ */
+export function selectByTopic(
+  repos: Repository[],
+  topic: string,
+): Repository[] {
+  const wanted = topic.toLowerCase();
+  return repos.filter((r) => r.topics?.includes(wanted));
+}
+
+/**
+ * Read `owner/repo` names from a file, one per line. Blank lines and
+ * `#` comments are ignored.
+ */
+export function readRepositoryList(filePath: string): string[] {
+  const names = readFileSync(filePath, "utf-8")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter(Boolean);
+
+  const malformed = names.find((name) => !/^[\w.-]+\/[\w.-]+$/.test(name));
+  if (malformed) {
+    throw new Error(`${filePath}: "${malformed}" is not an owner/repo name`);
+  }
+
+  return [...new Set(names)];
+}
+
+/**
+ * Write the same secrets to every repository, one repository at a time.
+ * A repository that fails as a whole, e.g. because its public key can't
+ * be read, is reported as a failure for each secret.
+ */
+export async function fanOutSecrets(
+  github: GitHubService,
+  repositories: string[],
+  secrets: Record<string, string>,
+  options: FanOutOptions = {},
+): Promise<FanOutResult[]> {
+  const results: FanOutResult[] = [];
+
+  for (const [index, repository] of repositories.entries()) {
+    options.onRepository?.(repository, index);
+    const [owner, repo] = repository.split("/");
+
+    try {
+      const result = await github.batchCreateSecrets(
+        { owner, repo, kind: options.kind ?? "actions" },
+        secrets,
+        options,
+      );
+      results.push({ repository, result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({
+        repository,
+        result: {
+          success: [],
+          failed: Object.keys(secrets).map((name) => ({
+            name,
+            error: message,
+          })),
+        },
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Render a repository × secret table of ✓ and ✗ marks, followed by the
+ * error of every failure
+ */
+export function formatFanOutMatrix(
+  results: FanOutResult[],
+  names: string[],
+): string[] {
+  const width = Math.max(10, ...results.map((r) => r.repository.length));
+  const cellWidths = names.map((name) => Math.max(name.length, 1));
+
+  const header = [
+    "Repository".padEnd(width),
+    ...names.map((name, i) => name.padEnd(cellWidths[i])),
+  ].join("  ");
+
+  const rows = results.map(({ repository, result }) => {
+    const cells = names.map((name, i) => {
+      const ok = result.success.includes(name);
+      const mark = ok ? "✓" : "✗";
+      const cell = mark.padEnd(cellWidths[i]);
+      return ok ? chalk.green(cell) : chalk.red(cell);
+    });
+    return [repository.padEnd(width), ...cells].join("  ");
+  });
+
+  const failures = results.flatMap(({ repository, result }) =>
+    result.failed.map(({ name, error }) =>
+      chalk.red(`  • ${repository} ${name}: ${error}`),
+    ),
+  );
+
+  return [
+    chalk.bold(header),
+    ...rows,
+    ...(failures.length > 0 ? ["", chalk.red("Failures:"), ...failures] : []),
+  ];
+}
+
+/**
+ * Count fully successful, partly failed and fully failed repositories
+ */
+export function summarizeFanOut(results: FanOutResult[]): {
+  succeeded: number;
+  partial: number;
+  failed: number;
+} {
+  let succeeded = 0;
+  let partial = 0;
+  let failed = 0;
+
+  for (const { result } of results) {
+    if (result.failed.length === 0) {
+      succeeded++;
+    } else if (result.success.length > 0) {
+      partial++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { succeeded, partial, failed };
+}
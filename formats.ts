@@ -0,0 +1,238 @@
+import { readFileSync } from "fs";
+import { basename, extname } from "path";
+import { parseAllDocuments } from "yaml";
+import { EnvParseOptions, readEnvFile } from "./env-parser.js";
+
+export type SecretFileFormat = "env" | "json" | "yaml" | "k8s" | "docker";
+
+export const SECRET_FILE_FORMATS: SecretFileFormat[] = [
+  "env",
+  "json",
+  "yaml",
+  "k8s",
+  "docker",
+];
+
+export interface SecretFileOptions extends EnvParseOptions {
+  /** Skip detection and parse the file as this format */
+  format?: SecretFileFormat;
+}
+
+/**
+ * A secrets file whose content doesn't fit its format
+ */
+export class SecretFileError extends Error {
+  constructor(message: string, file?: string) {
+    super(file ? `${file}: ${message}` : message);
+    this.name = "SecretFileError";
+  }
+}
+
+/**
+ * Guess the format from the file name. Kubernetes manifests are YAML or
+ * JSON files and are recognized by their content when parsed.
+ */
+export function detectFormat(filePath: string): SecretFileFormat {
+  switch (extname(filePath).toLowerCase()) {
+    case ".json":
+      return "json";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    default:
+      return basename(filePath) === "env.list" ? "docker" : "env";
+  }
+}
+
+/**
+ * Read secrets from a .env, JSON, YAML, Kubernetes Secret or docker
+ * env-file into flat key-value pairs
+ */
+export function readSecretsFile(
+  filePath: string,
+  options: SecretFileOptions = {},
+): Record<string, string> {
+  const format = options.format ?? detectFormat(filePath);
+
+  if (format === "env") {
+    return readEnvFile(filePath, options);
+  }
+
+  const content = readFileSync(filePath, "utf-8");
+
+  try {
+    switch (format) {
+      case "json":
+        return parseStructured([JSON.parse(content)]);
+      case "yaml":
+        return parseStructured(parseYamlDocuments(content));
+      case "k8s":
+        return parseKubernetesSecrets(parseYamlDocuments(content));
+      case "docker":
+        return parseDockerEnvFile(content, options);
+    }
+  } catch (error) {
+    throw new SecretFileError(
+      error instanceof Error ? error.message : String(error),
+      filePath,
+    );
+  }
+}
+
+/**
+ * Parse every document of a YAML stream. JSON is valid YAML, so this
+ * also reads JSON manifests.
+ */
+function parseYamlDocuments(content: string): unknown[] {
+  return parseAllDocuments(content).map((document) => {
+    if (document.errors.length > 0) {
+      const [error] = document.errors;
+      const line = error.linePos?.[0].line;
+      // The full message quotes the source, which may contain a secret
+      const reason = error.code.toLowerCase().replace(/_/g, " ");
+      throw new Error(line ? `Line ${line}: ${reason}` : reason);
+    }
+    return document.toJS();
+  });
+}
+
+/**
+ * Flatten JSON or YAML documents, unless they turn out to be
+ * Kubernetes Secret manifests
+ */
+function parseStructured(parsed: unknown[]): Record<string, string> {
+  // A stream ending in `---`, as kubectl and helm write them, has an
+  // empty last document
+  const documents = parsed.filter(
+    (document) => document !== null && document !== undefined,
+  );
+
+  if (documents.length > 0 && documents.every(isKubernetesSecret)) {
+    return parseKubernetesSecrets(documents);
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const document of documents) {
+    if (!isObject(document)) {
+      throw new Error("Expected an object of keys and values");
+    }
+    Object.assign(secrets, flattenEntries(document));
+  }
+  return secrets;
+}
+
+/**
+ * Flatten nested objects and arrays to PARENT_CHILD names
+ */
+export function flattenEntries(
+  value: Record<string, unknown>,
+  prefix = "",
+): Record<string, string> {
+  const entries: Record<string, string> = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? `${prefix}_${key}` : key;
+
+    if (isObject(child)) {
+      Object.assign(entries, flattenEntries(child, name));
+    } else if (Array.isArray(child)) {
+      Object.assign(entries, flattenEntries({ ...child }, name));
+    } else {
+      entries[name] =
+        child === null || child === undefined ? "" : String(child);
+    }
+  }
+
+  return entries;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isKubernetesSecret(value: unknown): value is {
+  data?: Record<string, unknown>;
+  stringData?: Record<string, unknown>;
+} {
+  return isObject(value) && value.kind === "Secret" && "apiVersion" in value;
+}
+
+/**
+ * Read the keys of Kubernetes Secret manifests. `data` values are
+ * base64-decoded; `stringData` is taken as is and wins over `data`,
+ * as it does when the manifest is applied.
+ */
+function parseKubernetesSecrets(documents: unknown[]): Record<string, string> {
+  const secrets: Record<string, string> = {};
+
+  for (const document of documents) {
+    // Empty documents appear around `---` separators
+    if (document === null) {
+      continue;
+    }
+    if (!isKubernetesSecret(document)) {
+      throw new Error("Expected a manifest with kind: Secret");
+    }
+
+    for (const [key, value] of Object.entries(document.data ?? {})) {
+      const encoded = String(value ?? "").replace(/\s/g, "");
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) {
+        throw new Error(`data.${key} is not valid base64`);
+      }
+      try {
+        secrets[key] = new TextDecoder("utf-8", { fatal: true }).decode(
+          Buffer.from(encoded, "base64"),
+        );
+      } catch {
+        // Decoding would replace the bytes it can't read, corrupting the value
+        throw new Error(
+          `data.${key} is binary, not text; upload the file base64-encoded with set --value-from-file <path> --base64`,
+        );
+      }
+    }
+
+    for (const [key, value] of Object.entries(document.stringData ?? {})) {
+      secrets[key] = String(value ?? "");
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * Parse a `docker run --env-file` file: values are taken literally,
+ * without quotes or comments, and a bare `NAME` copies the variable
+ * from the current environment
+ */
+function parseDockerEnvFile(
+  content: string,
+  options: EnvParseOptions,
+): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trimStart();
+    if (!line.trim() || line.startsWith("#")) {
+      return;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator === -1) {
+      const name = line.trim();
+      if (process.env[name] === undefined) {
+        options.onWarning?.({
+          line: index + 1,
+          message: `${name} is not set in the environment and was skipped`,
+        });
+      } else {
+        secrets[name] = process.env[name]!;
+      }
+      return;
+    }
+
+    secrets[line.slice(0, separator)] = line.slice(separator + 1);
+  });
+
+  return secrets;
+}
@@ -0,0 +1,100 @@
+import { runCommand } from "./references.js";
+
+export interface GitRemote {
+  name: string;
+  url: string;
+}
+
+/**
+ * A remote that points at a GitHub repository
+ */
+export interface RemoteRepository {
+  owner: string;
+  repo: string;
+  remote: string;
+}
+
+/**
+ * Remotes tried in this order when none is named
+ */
+const PREFERRED_REMOTES = ["origin", "upstream"];
+
+/**
+ * Extract `owner/repo` from a GitHub remote URL. Understands
+ * `https://github.com/owner/repo.git`, `git@github.com:owner/repo.git`
+ * and `ssh://git@github.com/owner/repo`.
+ */
+export function parseGitHubRemoteUrl(
+  url: string,
+  host = "github.com",
+): { owner: string; repo: string } | null {
+  const escapedHost = host.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = url
+    .trim()
+    .match(
+      new RegExp(
+        `^(?:(?:https?|git|ssh)://(?:[^@/]+@)?${escapedHost}(?::\\d+)?/|(?:[^@/]+@)?${escapedHost}:)([^/]+)/([^/]+?)(?:\\.git)?/?$`,
+        "i",
+      ),
+    );
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * The fetch URL of every remote of the checkout in `cwd`, or nothing
+ * outside a git checkout
+ */
+export function listGitRemotes(cwd = process.cwd()): GitRemote[] {
+  let output: string;
+  try {
+    output = runCommand(["git", "remote", "-v"], cwd);
+  } catch {
+    return [];
+  }
+
+  const remotes: GitRemote[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/);
+    if (match) {
+      remotes.push({ name: match[1], url: match[2] });
+    }
+  }
+  return remotes;
+}
+
+/**
+ * Every remote of the checkout that points at a GitHub repository,
+ * origin and upstream first
+ */
+export function listRemoteRepositories(
+  cwd = process.cwd(),
+  host = "github.com",
+): RemoteRepository[] {
+  const rank = (name: string) => {
+    const index = PREFERRED_REMOTES.indexOf(name);
+    return index === -1 ? PREFERRED_REMOTES.length : index;
+  };
+
+  return listGitRemotes(cwd)
+    .flatMap(({ name, url }) => {
+      const parsed = parseGitHubRemoteUrl(url, host);
+      return parsed ? [{ ...parsed, remote: name }] : [];
+    })
+    .sort((a, b) => rank(a.remote) - rank(b.remote));
+}
+
+/**
+ * The repository of the current checkout: the named remote, or else
+ * origin, upstream or the first other GitHub remote
+ */
+export function detectRepository(
+  remote?: string,
+  cwd = process.cwd(),
+  host = "github.com",
+): RemoteRepository | null {
+  const repositories = listRemoteRepositories(cwd, host);
+  if (remote) {
+    return repositories.find((r) => r.remote === remote) ?? null;
+  }
+  return repositories[0] ?? null;
+}
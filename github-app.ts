@@ -0,0 +1,232 @@
+import { createPrivateKey, createSign } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { Octokit } from "octokit";
+
+/**
+ * What's needed to act as a GitHub App installation
+ */
+export interface GitHubAppCredentials {
+  appId: string;
+  /** The app's private key, in PEM format */
+  privateKey: string;
+  /** Discovered when left out and the app has a single installation */
+  installationId?: number;
+}
+
+export interface AppInstallation {
+  id: number;
+  account: { login: string; type?: string } | null;
+  repository_selection?: "all" | "selected";
+}
+
+export interface GitHubAppAuthOptions {
+  /** REST API root (default: github.com) */
+  baseUrl?: string;
+}
+
+/**
+ * Installation tokens live an hour; refresh them this long before they
+ * expire so a request never starts with a token about to lapse
+ */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Sign the short-lived JWT that authenticates as the app itself. It's
+ * backdated a minute to allow for clock drift, and GitHub rejects JWTs
+ * valid for more than ten minutes.
+ */
+export function createAppJwt(
+  appId: string,
+  privateKey: string,
+  now = Date.now(),
+): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const seconds = Math.floor(now / 1000);
+
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iat: seconds - 60,
+    exp: seconds + 9 * 60,
+    iss: appId,
+  })}`;
+  const signature = createSign("RSA-SHA256")
+    .update(unsigned)
+    .sign(privateKey, "base64url");
+  return `${unsigned}.${signature}`;
+}
+
+/**
+ * Accept the PEM itself or the path of a file holding it
+ */
+export function readPrivateKey(value: string): string {
+  const pem = value.includes("-----BEGIN")
+    ? value.replace(/\\n/g, "\n")
+    : existsSync(value)
+      ? readFileSync(value, "utf-8")
+      : null;
+  if (pem === null) {
+    throw new Error(`Private key file ${value} not found`);
+  }
+
+  try {
+    createPrivateKey(pem);
+  } catch {
+    throw new Error("The GitHub App private key is not a valid PEM key");
+  }
+  return pem;
+}
+
+/**
+ * App credentials from GH_APP_ID, GH_APP_PRIVATE_KEY (a PEM or a path)
+ * and GH_APP_INSTALLATION_ID, or null when no app is configured
+ */
+export function readAppCredentialsFromEnv(): GitHubAppCredentials | null {
+  const appId = process.env.GH_APP_ID;
+  const privateKey = process.env.GH_APP_PRIVATE_KEY;
+  if (!appId && !privateKey) {
+    return null;
+  }
+  if (!appId || !privateKey) {
+    throw new Error(
+      "GitHub App authentication needs both GH_APP_ID and GH_APP_PRIVATE_KEY",
+    );
+  }
+
+  const installation = process.env.GH_APP_INSTALLATION_ID;
+  if (installation && !/^\d+$/.test(installation)) {
+    throw new Error(
+      `GH_APP_INSTALLATION_ID must be a number, got "${installation}"`,
+    );
+  }
+
+  return {
+    appId,
+    privateKey: readPrivateKey(privateKey),
+    installationId: installation ? Number(installation) : undefined,
+  };
+}
+
+/**
+ * Authenticates as an installation of a GitHub App, minting installation
+ * tokens from the app's JWT and replacing them before they expire
+ */
+export class GitHubAppAuth {
+  private octokit: Octokit;
+  private apiVersion = "2022-11-28";
+  private appId: string;
+  private privateKey: string;
+  private installationId?: number;
+  private token: { token: string; expiresAt: number } | null = null;
+  /** The exchange in flight, shared by concurrent callers */
+  private pending: Promise<{ token: string; expiresAt: number }> | null = null;
+
+  constructor(
+    credentials: GitHubAppCredentials,
+    options: GitHubAppAuthOptions = {},
+  ) {
+    this.appId = credentials.appId;
+    this.privateKey = credentials.privateKey;
+    this.installationId = credentials.installationId;
+    this.octokit = new Octokit({ baseUrl: options.baseUrl });
+  }
+
+  private appHeaders() {
+    return {
+      authorization: `Bearer ${createAppJwt(this.appId, this.privateKey)}`,
+      "X-GitHub-Api-Version": this.apiVersion,
+    };
+  }
+
+  /**
+   * The app's own details; its slug names the bot account it acts as
+   */
+  async getApp(): Promise<{ slug: string; name: string }> {
+    const { data } = await this.octokit.request("GET /app", {
+      headers: this.appHeaders(),
+    });
+    if (!data) {
+      throw new Error(`GitHub App ${this.appId} not found`);
+    }
+    return { slug: data.slug ?? String(this.appId), name: data.name };
+  }
+
+  /**
+   * List the accounts the app is installed on
+   */
+  async listInstallations(): Promise<AppInstallation[]> {
+    return this.octokit.paginate("GET /app/installations", {
+      headers: this.appHeaders(),
+      per_page: 100,
+    }) as Promise<AppInstallation[]>;
+  }
+
+  setInstallation(installationId: number) {
+    this.installationId = installationId;
+    this.token = null;
+  }
+
+  getInstallationId(): number | undefined {
+    return this.installationId;
+  }
+
+  /**
+   * Use the app's only installation when none was given
+   */
+  async discoverInstallation(): Promise<number> {
+    if (this.installationId !== undefined) {
+      return this.installationId;
+    }
+
+    const installations = await this.listInstallations();
+    if (installations.length !== 1) {
+      throw new Error(
+        installations.length === 0
+          ? `GitHub App ${this.appId} isn't installed anywhere`
+          : `GitHub App ${this.appId} has ${installations.length} installations (${installations.map((i) => `${i.account?.login ?? "?"}: ${i.id}`).join(", ")}); choose one with GH_APP_INSTALLATION_ID`,
+      );
+    }
+    this.setInstallation(installations[0].id);
+    return installations[0].id;
+  }
+
+  /**
+   * A valid installation token. Concurrent callers share one exchange,
+   * and a failed exchange isn't cached.
+   */
+  async getToken(): Promise<string> {
+    if (
+      this.token &&
+      this.token.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS
+    ) {
+      return this.token.token;
+    }
+
+    if (!this.pending) {
+      this.pending = this.createInstallationToken()
+        .then((token) => (this.token = token))
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return (await this.pending).token;
+  }
+
+  /**
+   * Drop the cached token, e.g. after GitHub rejected it
+   */
+  invalidate() {
+    this.token = null;
+  }
+
+  private async createInstallationToken() {
+    const installationId = await this.discoverInstallation();
+    const { data } = await this.octokit.request(
+      "POST /app/installations/{installation_id}/access_tokens",
+      {
+        installation_id: installationId,
+        headers: this.appHeaders(),
+      },
+    );
+    return { token: data.token, expiresAt: Date.parse(data.expires_at) };
+  }
+}
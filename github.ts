@@ -1,11 +1,32 @@
-import { Octokit } from "octokit";
+import { Octokit, RequestError } from "octokit";
 import sodium from "libsodium-wrappers";
+import { AuditJournal, AuditOperation } from "./audit.js";
+import { GitHubAppAuth } from "./github-app.js";
+import { resolveValueReference } from "./references.js";
+import { assertSecretSize } from "./secret-size.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryNotice,
+  RetryPolicy,
+  mapWithConcurrency,
+  withRetries,
+} from "./retry.js";
 
 export interface Repository {
   id: number;
   name: string;
   full_name: string;
   private: boolean;
+  description?: string | null;
+  archived?: boolean;
+  fork?: boolean;
+  visibility?: string;
+  topics?: string[];
+  permissions?: {
+    admin: boolean;
+    push: boolean;
+    pull: boolean;
+  };
   owner: {
     login: string;
     type: string;
@@ -24,6 +45,151 @@ export interface Secret {
   updated_at: string;
 }
 
+export interface Variable {
+  name: string;
+  value: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrgVariable extends Variable {
+  visibility: OrgSecretVisibility;
+}
+
+export type OrgSecretVisibility = "all" | "private" | "selected";
+
+export interface OrgSecret extends Secret {
+  visibility: OrgSecretVisibility;
+  selected_repositories_url?: string;
+}
+
+/**
+ * A workflow definition and where it came from
+ */
+export interface WorkflowFile {
+  path: string;
+  content: string;
+}
+
+export interface Environment {
+  id: number;
+  name: string;
+}
+
+/**
+ * The secret store a secret belongs to. Each kind has its own
+ * endpoints and public key.
+ */
+export type SecretKind = "actions" | "dependabot" | "codespaces";
+
+export const SECRET_KINDS: SecretKind[] = [
+  "actions",
+  "dependabot",
+  "codespaces",
+];
+
+/**
+ * Where a secret lives: the repository itself, or one of its
+ * deployment environments when `environment` is set.
+ * `kind` defaults to "actions"; environments only exist for Actions.
+ */
+export interface SecretTarget {
+  owner: string;
+  repo: string;
+  environment?: string;
+  kind?: SecretKind;
+}
+
+/**
+ * Human-readable label for a secret target
+ */
+export function formatTarget(target: SecretTarget): string {
+  const details: string[] = [];
+  if (target.kind && target.kind !== "actions") {
+    details.push(target.kind);
+  }
+  if (target.environment) {
+    details.push(`environment: ${target.environment}`);
+  }
+
+  const repo = `${target.owner}/${target.repo}`;
+  return details.length > 0 ? `${repo} (${details.join(", ")})` : repo;
+}
+
+/**
+ * Outcome of a batch operation, per secret or variable name
+ */
+export interface BatchResult {
+  success: string[];
+  failed: { name: string; error: string }[];
+}
+
+/**
+ * Options for batch operations
+ */
+export interface BatchOptions {
+  /** Requests in flight at once (default: DEFAULT_CONCURRENCY) */
+  concurrency?: number;
+  /** Called after each item, successful or not */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export interface GitHubServiceOptions {
+  /** REST API root, e.g. `https://github.example.com/api/v3` (default: github.com) */
+  baseUrl?: string;
+  /** Resolve `@file:`, `@cmd:` and other value references (default: true) */
+  resolveReferences?: boolean;
+  retry?: RetryPolicy;
+  /** Called before waiting to retry a rate-limited or failed request */
+  onRetry?: (notice: RetryNotice) => void;
+  /** Journal of secret changes (default: the local audit log; null: off) */
+  audit?: AuditJournal | null;
+  /** Report writes through onDryRun instead of sending them */
+  dryRun?: boolean;
+  onDryRun?: (request: DryRunRequest) => void;
+}
+
+/**
+ * A write that dry-run mode held back. `change` says what it would do
+ * to a secret or variable, judged by the target's current list.
+ */
+export interface DryRunRequest {
+  method: string;
+  path: string;
+  change?: "create" | "overwrite" | "delete";
+}
+
+/**
+ * One line describing a held-back write
+ */
+export function formatDryRunRequest(request: DryRunRequest): string {
+  const labels = {
+    create: "new",
+    overwrite: "overwrites existing",
+    delete: "deletes",
+  };
+  const change = request.change ? ` (${labels[request.change]})` : "";
+  return `[dry run] ${request.method} ${request.path}${change}`;
+}
+
+/**
+ * An encrypted value and, when auditing, the fingerprint of its plaintext
+ */
+interface SealedSecret {
+  encryptedValue: string;
+  fingerprint?: string;
+}
+
+/**
+ * What an audited write did, as far as GitHub told us
+ */
+interface AuditedWrite {
+  operation: AuditOperation;
+  fingerprint?: string;
+}
+
 export interface PublicKey {
   key_id: string;
   key: string;
@@ -32,22 +198,329 @@ export interface PublicKey {
 export class GitHubService {
   private octokit: Octokit;
   private apiVersion = "2022-11-28";
+  /** Public keys per target, shared by concurrent uploads */
+  private publicKeys = new Map<string, Promise<PublicKey>>();
+  private resolveReferences: boolean;
+  private audit: AuditJournal | null;
+  /** Login recorded in the audit journal, known after getAuthenticatedUser */
+  private login?: string;
+  private dryRun: boolean;
+  private onDryRun?: (request: DryRunRequest) => void;
+  /** Secret and variable names per list path, for dry-run previews */
+  private existingNames = new Map<string, Promise<Set<string>>>();
+  /** Set when acting as a GitHub App installation instead of with a token */
+  private app: GitHubAppAuth | null;
 
-  constructor(token: string) {
+  /**
+   * `auth` is a token, or a GitHub App whose installation tokens are
+   * fetched and renewed as requests need them
+   */
+  constructor(
+    auth: string | GitHubAppAuth,
+    options: GitHubServiceOptions = {},
+  ) {
+    this.resolveReferences = options.resolveReferences ?? true;
+    this.dryRun = options.dryRun ?? false;
+    this.onDryRun = options.onDryRun;
+    this.audit =
+      options.audit === undefined ? new AuditJournal() : options.audit;
+    this.app = typeof auth === "string" ? null : auth;
     this.octokit = new Octokit({
-      auth: token,
+      auth: typeof auth === "string" ? auth : undefined,
+      baseUrl: options.baseUrl,
+      // Retries are handled below, and batches limit their own concurrency
+      throttle: { enabled: false },
+      retry: { enabled: false },
+    });
+
+    this.octokit.hook.wrap(
+      "request",
+      (
+        request: (options: unknown) => Promise<unknown>,
+        requestOptions: {
+          method: string;
+          baseUrl: string;
+          headers?: Record<string, string>;
+        },
+      ) =>
+        this.dryRun && requestOptions.method !== "GET"
+          ? this.previewWrite(requestOptions)
+          : withRetries(
+              () =>
+                this.app
+                  ? this.requestAsApp(this.app, request, requestOptions)
+                  : request(requestOptions),
+              options.retry ?? DEFAULT_RETRY_POLICY,
+              options.onRetry,
+            ),
+    );
+  }
+
+  /**
+   * Send a request with the installation's current token. A token that
+   * GitHub rejects is replaced once, in case it was revoked early.
+   */
+  private async requestAsApp(
+    app: GitHubAppAuth,
+    request: (options: unknown) => Promise<unknown>,
+    requestOptions: { headers?: Record<string, string> },
+  ) {
+    const send = async () =>
+      request({
+        ...requestOptions,
+        headers: {
+          ...requestOptions.headers,
+          authorization: `token ${await app.getToken()}`,
+        },
+      });
+
+    try {
+      return await send();
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 401) {
+        app.invalidate();
+        return send();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether this acts as a GitHub App installation
+   */
+  isApp(): boolean {
+    return this.app !== null;
+  }
+
+  /**
+   * Turn dry-run mode on or off. Reads still go to GitHub, so validation
+   * and public-key lookups behave as usual.
+   */
+  setDryRun(enabled: boolean) {
+    this.dryRun = enabled;
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Whether values like `@file:` are read before they're written, i.e.
+   * without --literal
+   */
+  resolvesReferences(): boolean {
+    return this.resolveReferences;
+  }
+
+  /**
+   * Report a write instead of sending it and answer the way GitHub
+   * would. An update of a variable that doesn't exist gets a 404, so the
+   * caller falls back to creating it as it would for real.
+   */
+  private async previewWrite(requestOptions: {
+    method: string;
+    baseUrl: string;
+  }) {
+    const endpoint = this.octokit.request.endpoint.parse(
+      requestOptions as Parameters<
+        typeof this.octokit.request.endpoint.parse
+      >[0],
+    );
+    const path = decodeURIComponent(
+      endpoint.url.slice(requestOptions.baseUrl.length),
+    );
+
+    let change: DryRunRequest["change"];
+    const item = path.match(/^(.*\/(?:secrets|variables))\/([^/]+)$/);
+    if (item && endpoint.method === "DELETE") {
+      change = "delete";
+    } else if (item) {
+      const names = await this.listExistingNames(item[1]);
+      const name = item[2].toUpperCase();
+      if (!names.has(name)) {
+        if (endpoint.method === "PATCH") {
+          throw new RequestError("Not Found", 404, { request: endpoint });
+        }
+        names.add(name);
+        change = "create";
+      } else {
+        change = "overwrite";
+      }
+    } else if (endpoint.method === "POST" && /\/variables$/.test(path)) {
+      change = "create";
+    }
+
+    this.onDryRun?.({ method: endpoint.method, path, change });
+    return {
+      status: change === "create" ? 201 : 204,
+      url: endpoint.url,
+      headers: {},
+      data: undefined,
+    };
+  }
+
+  /**
+   * Names currently listed at a secrets or variables path, e.g. what
+   * listRepoSecrets returns for `/repos/{owner}/{repo}/actions/secrets`,
+   * upper-cased like GitHub stores them. A target that can't be listed
+   * counts as empty.
+   */
+  private listExistingNames(listPath: string): Promise<Set<string>> {
+    let names = this.existingNames.get(listPath);
+    if (!names) {
+      names = this.paginate<{ name: string }>(`GET ${listPath}`, {
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+        per_page: 100,
+      }).then(
+        (items) => new Set(items.map((i) => i.name.toUpperCase())),
+        () => new Set<string>(),
+      );
+      this.existingNames.set(listPath, names);
+    }
+    return names;
+  }
+
+  /**
+   * Fetch a public key once per target and reuse it afterwards.
+   * A failed lookup isn't cached.
+   */
+  private cachedPublicKey(
+    cacheKey: string,
+    load: () => Promise<PublicKey>,
+  ): Promise<PublicKey> {
+    let publicKey = this.publicKeys.get(cacheKey);
+    if (!publicKey) {
+      publicKey = load();
+      publicKey.catch(() => this.publicKeys.delete(cacheKey));
+      this.publicKeys.set(cacheKey, publicKey);
+    }
+    return publicKey;
+  }
+
+  /**
+   * Run an operation for every item with bounded concurrency and
+   * collect the successes and failures by name
+   */
+  private async runBatch(
+    names: string[],
+    operation: (name: string) => Promise<void>,
+    options: BatchOptions,
+  ): Promise<BatchResult> {
+    const success: string[] = [];
+    const failed: BatchResult["failed"] = [];
+    let done = 0;
+
+    const outcomes = await mapWithConcurrency(
+      names,
+      options.concurrency ?? DEFAULT_CONCURRENCY,
+      async (name) => {
+        try {
+          await operation(name);
+          return null;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        } finally {
+          options.onProgress?.(++done, names.length);
+        }
+      },
+    );
+
+    outcomes.forEach((error, index) => {
+      if (error === null) {
+        success.push(names[index]);
+      } else {
+        failed.push({ name: names[index], error });
+      }
+    });
+
+    return { success, failed };
+  }
+
+  /**
+   * Run a secret write and record it in the audit journal, whether it
+   * succeeds or not. A journal that can't be written only warns, since
+   * the change on GitHub has already happened.
+   */
+  private async audited(
+    target: string,
+    secretName: string,
+    failedOperation: AuditOperation,
+    write: () => Promise<AuditedWrite>,
+  ): Promise<void> {
+    let entry;
+    try {
+      const { operation, fingerprint } = await write();
+      entry = { operation, outcome: "success" as const, fingerprint };
+    } catch (error) {
+      this.recordAudit({
+        actor: this.login ?? "unknown",
+        target,
+        secret: secretName,
+        operation: failedOperation,
+        outcome: "failure",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    this.recordAudit({
+      actor: this.login ?? "unknown",
+      target,
+      secret: secretName,
+      ...entry,
     });
   }
 
+  private recordAudit(entry: Parameters<AuditJournal["record"]>[0]) {
+    if (!this.audit || this.dryRun) {
+      return;
+    }
+    try {
+      this.audit.record(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.emitWarning(
+        `Could not write to the audit log ${this.audit.path}: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Collect every page of a list endpoint through Octokit's iterator
+   */
+  private async paginate<T>(
+    route: string,
+    parameters: Record<string, unknown>,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const { data } of this.octokit.paginate.iterator(
+      route,
+      parameters,
+    )) {
+      items.push(...(data as T[]));
+    }
+    return items;
+  }
+
   /**
    * Get the authenticated user's information
    */
   async getAuthenticatedUser() {
+    if (this.app) {
+      // Installation tokens can't read /user; they act as the app's bot
+      const [app] = await Promise.all([this.app.getApp(), this.app.getToken()]);
+      this.login = `${app.slug}[bot]`;
+      return { login: this.login, name: app.name };
+    }
+
     const { data } = await this.octokit.request("GET /user", {
       headers: {
         "X-GitHub-Api-Version": this.apiVersion,
       },
     });
+    this.login = data.login;
     return data;
   }
 
@@ -55,34 +528,48 @@ export class GitHubService {
    * List all organizations the user belongs to
    */
   async listOrganizations(): Promise<Organization[]> {
-    const { data } = await this.octokit.request("GET /user/orgs", {
+    return this.paginate<Organization>("GET /user/orgs", {
       headers: {
         "X-GitHub-Api-Version": this.apiVersion,
       },
       per_page: 100,
     });
-    return data;
   }
 
   /**
-   * List repositories for the authenticated user
+   * List repositories for the authenticated user, or the installation's
+   * repositories when acting as a GitHub App
    */
   async listUserRepositories(): Promise<Repository[]> {
-    const { data } = await this.octokit.request("GET /user/repos", {
+    if (this.app) {
+      return this.listInstallationRepositories();
+    }
+    return this.paginate<Repository>("GET /user/repos", {
       headers: {
         "X-GitHub-Api-Version": this.apiVersion,
       },
       per_page: 100,
       sort: "updated",
     });
-    return data;
+  }
+
+  /**
+   * List the repositories a GitHub App installation can access
+   */
+  async listInstallationRepositories(): Promise<Repository[]> {
+    return this.paginate<Repository>("GET /installation/repositories", {
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
+      },
+      per_page: 100,
+    });
   }
 
   /**
    * List repositories for an organization
    */
   async listOrgRepositories(org: string): Promise<Repository[]> {
-    const { data } = await this.octokit.request("GET /orgs/{org}/repos", {
+    return this.paginate<Repository>("GET /orgs/{org}/repos", {
       org,
       headers: {
         "X-GitHub-Api-Version": this.apiVersion,
@@ -90,24 +577,25 @@ export class GitHubService {
       per_page: 100,
       sort: "updated",
     });
-    return data;
   }
 
   /**
-   * List all secrets in a repository
+   * List all secrets of the given kind in a repository
    */
-  async listRepoSecrets(owner: string, repo: string): Promise<Secret[]> {
-    const { data } = await this.octokit.request(
-      "GET /repos/{owner}/{repo}/actions/secrets",
-      {
-        owner,
-        repo,
-        headers: {
-          "X-GitHub-Api-Version": this.apiVersion,
-        },
+  async listRepoSecrets(
+    owner: string,
+    repo: string,
+    kind: SecretKind = "actions",
+  ): Promise<Secret[]> {
+    return this.paginate<Secret>("GET /repos/{owner}/{repo}/{kind}/secrets", {
+      owner,
+      repo,
+      kind,
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
       },
-    );
-    return data.secrets || [];
+      per_page: 100,
+    });
   }
 
   /**
@@ -116,34 +604,50 @@ export class GitHubService {
   private async getRepoPublicKey(
     owner: string,
     repo: string,
+    kind: SecretKind,
   ): Promise<PublicKey> {
-    const { data } = await this.octokit.request(
-      "GET /repos/{owner}/{repo}/actions/secrets/public-key",
-      {
-        owner,
-        repo,
-        headers: {
-          "X-GitHub-Api-Version": this.apiVersion,
+    return this.cachedPublicKey(`${kind}:${owner}/${repo}`, async () => {
+      const { data } = await this.octokit.request(
+        "GET /repos/{owner}/{repo}/{kind}/secrets/public-key",
+        {
+          owner,
+          repo,
+          kind,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
         },
-      },
-    );
-    return data;
+      );
+      return data;
+    });
   }
 
   /**
-   * Encrypt a secret value using the repository's public key
+   * Encrypt a secret value using the repository's public key.
+   * Value references are resolved here, so the real value is only
+   * read right before it's sealed, and fingerprinted for the journal.
    */
   private async encryptSecret(
     secretValue: string,
     publicKey: string,
-  ): Promise<string> {
+  ): Promise<SealedSecret> {
     await sodium.ready;
 
+    const plaintext = this.resolveReferences
+      ? resolveValueReference(secretValue)
+      : secretValue;
+    assertSecretSize(plaintext);
     const binkey = sodium.from_base64(publicKey, sodium.base64_variants.ORIGINAL);
-    const binsec = sodium.from_string(secretValue);
+    const binsec = sodium.from_string(plaintext);
     const encBytes = sodium.crypto_box_seal(binsec, binkey);
     
-    return sodium.to_base64(encBytes, sodium.base64_variants.ORIGINAL);
+    return {
+      encryptedValue: sodium.to_base64(
+        encBytes,
+        sodium.base64_variants.ORIGINAL,
+      ),
+      fingerprint: this.audit?.fingerprint(plaintext),
+    };
   }
 
   /**
@@ -154,72 +658,945 @@ export class GitHubService {
     repo: string,
     secretName: string,
     secretValue: string,
+    kind: SecretKind = "actions",
   ): Promise<void> {
-    const publicKeyData = await this.getRepoPublicKey(owner, repo);
-    const encryptedValue = await this.encryptSecret(
-      secretValue,
-      publicKeyData.key,
-    );
+    const target = formatTarget({ owner, repo, kind });
+    await this.audited(target, secretName, "set", async () => {
+      const publicKeyData = await this.getRepoPublicKey(owner, repo, kind);
+      const { encryptedValue, fingerprint } = await this.encryptSecret(
+        secretValue,
+        publicKeyData.key,
+      );
 
-    await this.octokit.request(
-      "PUT /repos/{owner}/{repo}/actions/secrets/{secret_name}",
+      const { status } = await this.octokit.request(
+        "PUT /repos/{owner}/{repo}/{kind}/secrets/{secret_name}",
+        {
+          owner,
+          repo,
+          kind,
+          secret_name: secretName,
+          encrypted_value: encryptedValue,
+          key_id: publicKeyData.key_id,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: writeOperation(status), fingerprint };
+    });
+  }
+
+  /**
+   * Delete a repository secret
+   */
+  async deleteRepoSecret(
+    owner: string,
+    repo: string,
+    secretName: string,
+    kind: SecretKind = "actions",
+  ): Promise<void> {
+    const target = formatTarget({ owner, repo, kind });
+    await this.audited(target, secretName, "delete", async () => {
+      await this.octokit.request(
+        "DELETE /repos/{owner}/{repo}/{kind}/secrets/{secret_name}",
+        {
+          owner,
+          repo,
+          kind,
+          secret_name: secretName,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: "delete" };
+    });
+  }
+
+  /**
+   * List deployment environments of a repository
+   */
+  async listEnvironments(owner: string, repo: string): Promise<Environment[]> {
+    return this.paginate<Environment>(
+      "GET /repos/{owner}/{repo}/environments",
       {
         owner,
         repo,
-        secret_name: secretName,
-        encrypted_value: encryptedValue,
-        key_id: publicKeyData.key_id,
         headers: {
           "X-GitHub-Api-Version": this.apiVersion,
         },
+        per_page: 100,
       },
     );
   }
 
   /**
-   * Delete a repository secret
+   * List all secrets in a deployment environment
    */
-  async deleteRepoSecret(
+  async listEnvironmentSecrets(
     owner: string,
     repo: string,
-    secretName: string,
-  ): Promise<void> {
-    await this.octokit.request(
-      "DELETE /repos/{owner}/{repo}/actions/secrets/{secret_name}",
+    environment: string,
+  ): Promise<Secret[]> {
+    return this.paginate<Secret>(
+      "GET /repos/{owner}/{repo}/environments/{environment_name}/secrets",
       {
         owner,
         repo,
-        secret_name: secretName,
+        environment_name: environment,
         headers: {
           "X-GitHub-Api-Version": this.apiVersion,
         },
+        per_page: 100,
       },
     );
   }
 
   /**
-   * Batch create/update multiple secrets
+   * Get environment's public key for encrypting secrets
    */
-  async batchCreateSecrets(
+  private async getEnvironmentPublicKey(
     owner: string,
     repo: string,
-    secrets: Record<string, string>,
-  ): Promise<{ success: string[]; failed: { name: string; error: string }[] }> {
-    const success: string[] = [];
-    const failed: { name: string; error: string }[] = [];
-
-    for (const [name, value] of Object.entries(secrets)) {
-      try {
-        await this.createOrUpdateRepoSecret(owner, repo, name, value);
-        success.push(name);
-      } catch (error) {
-        failed.push({
-          name,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+    environment: string,
+  ): Promise<PublicKey> {
+    return this.cachedPublicKey(
+      `environment:${owner}/${repo}:${environment}`,
+      async () => {
+        const { data } = await this.octokit.request(
+          "GET /repos/{owner}/{repo}/environments/{environment_name}/secrets/public-key",
+          {
+            owner,
+            repo,
+            environment_name: environment,
+            headers: {
+              "X-GitHub-Api-Version": this.apiVersion,
+            },
+          },
+        );
+        return data;
+      },
+    );
+  }
+
+  /**
+   * Create or update a deployment environment secret
+   */
+  async createOrUpdateEnvironmentSecret(
+    owner: string,
+    repo: string,
+    environment: string,
+    secretName: string,
+    secretValue: string,
+  ): Promise<void> {
+    const target = formatTarget({ owner, repo, environment });
+    await this.audited(target, secretName, "set", async () => {
+      const publicKeyData = await this.getEnvironmentPublicKey(
+        owner,
+        repo,
+        environment,
+      );
+      const { encryptedValue, fingerprint } = await this.encryptSecret(
+        secretValue,
+        publicKeyData.key,
+      );
+
+      const { status } = await this.octokit.request(
+        "PUT /repos/{owner}/{repo}/environments/{environment_name}/secrets/{secret_name}",
+        {
+          owner,
+          repo,
+          environment_name: environment,
+          secret_name: secretName,
+          encrypted_value: encryptedValue,
+          key_id: publicKeyData.key_id,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: writeOperation(status), fingerprint };
+    });
+  }
+
+  /**
+   * Delete a deployment environment secret
+   */
+  async deleteEnvironmentSecret(
+    owner: string,
+    repo: string,
+    environment: string,
+    secretName: string,
+  ): Promise<void> {
+    const target = formatTarget({ owner, repo, environment });
+    await this.audited(target, secretName, "delete", async () => {
+      await this.octokit.request(
+        "DELETE /repos/{owner}/{repo}/environments/{environment_name}/secrets/{secret_name}",
+        {
+          owner,
+          repo,
+          environment_name: environment,
+          secret_name: secretName,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: "delete" };
+    });
+  }
+
+  /**
+   * List the secrets of a repository or environment target
+   */
+  async listSecrets(target: SecretTarget): Promise<Secret[]> {
+    return target.environment
+      ? this.listEnvironmentSecrets(
+          target.owner,
+          target.repo,
+          environmentOf(target),
+        )
+      : this.listRepoSecrets(target.owner, target.repo, target.kind);
+  }
+
+  /**
+   * Create or update a secret on a repository or environment target
+   */
+  async createOrUpdateSecret(
+    target: SecretTarget,
+    secretName: string,
+    secretValue: string,
+  ): Promise<void> {
+    if (target.environment) {
+      await this.createOrUpdateEnvironmentSecret(
+        target.owner,
+        target.repo,
+        environmentOf(target),
+        secretName,
+        secretValue,
+      );
+    } else {
+      await this.createOrUpdateRepoSecret(
+        target.owner,
+        target.repo,
+        secretName,
+        secretValue,
+        target.kind,
+      );
     }
+  }
 
-    return { success, failed };
+  /**
+   * Delete a secret from a repository or environment target
+   */
+  async deleteSecret(target: SecretTarget, secretName: string): Promise<void> {
+    if (target.environment) {
+      await this.deleteEnvironmentSecret(
+        target.owner,
+        target.repo,
+        environmentOf(target),
+        secretName,
+      );
+    } else {
+      await this.deleteRepoSecret(
+        target.owner,
+        target.repo,
+        secretName,
+        target.kind,
+      );
+    }
+  }
+
+  /**
+   * Batch create/update multiple secrets
+   */
+  async batchCreateSecrets(
+    target: SecretTarget,
+    secrets: Record<string, string>,
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
+    return this.runBatch(
+      Object.keys(secrets),
+      (name) => this.createOrUpdateSecret(target, name, secrets[name]),
+      options,
+    );
+  }
+
+  /**
+   * Batch delete multiple secrets
+   */
+  async batchDeleteSecrets(
+    target: SecretTarget,
+    names: string[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
+    return this.runBatch(
+      names,
+      (name) => this.deleteSecret(target, name),
+      options,
+    );
   }
+
+  /**
+   * List all secrets in an organization
+   */
+  async listOrgSecrets(org: string): Promise<OrgSecret[]> {
+    return this.paginate<OrgSecret>("GET /orgs/{org}/actions/secrets", {
+      org,
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
+      },
+      per_page: 100,
+    });
+  }
+
+  /**
+   * List the organization secrets shared with a repository
+   */
+  async listRepoOrganizationSecrets(
+    owner: string,
+    repo: string,
+  ): Promise<Secret[]> {
+    return this.paginate<Secret>(
+      "GET /repos/{owner}/{repo}/actions/organization-secrets",
+      {
+        owner,
+        repo,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+        per_page: 100,
+      },
+    );
+  }
+
+  /**
+   * Read the workflow files on the default branch through the contents
+   * API. A repository without `.github/workflows` has none.
+   */
+  async listWorkflowFiles(
+    owner: string,
+    repo: string,
+  ): Promise<WorkflowFile[]> {
+    let entries: { type: string; name: string; path: string }[];
+    try {
+      const { data } = await this.octokit.request(
+        "GET /repos/{owner}/{repo}/contents/{path}",
+        {
+          owner,
+          repo,
+          path: ".github/workflows",
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      entries = Array.isArray(data) ? data : [];
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const files = entries.filter(
+      (entry) => entry.type === "file" && /\.ya?ml$/i.test(entry.name),
+    );
+    return mapWithConcurrency(files, DEFAULT_CONCURRENCY, async (file) => {
+      const { data } = await this.octokit.request(
+        "GET /repos/{owner}/{repo}/contents/{path}",
+        {
+          owner,
+          repo,
+          path: file.path,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      const content =
+        "content" in data && typeof data.content === "string"
+          ? Buffer.from(data.content, "base64").toString("utf-8")
+          : "";
+      return { path: file.path, content };
+    });
+  }
+
+  /**
+   * Get organization's public key for encrypting secrets
+   */
+  private async getOrgPublicKey(org: string): Promise<PublicKey> {
+    return this.cachedPublicKey(`org:${org}`, async () => {
+      const { data } = await this.octokit.request(
+        "GET /orgs/{org}/actions/secrets/public-key",
+        {
+          org,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return data;
+    });
+  }
+
+  /**
+   * Create or update an organization secret.
+   * `selectedRepositoryIds` is only used with the "selected" visibility.
+   */
+  async createOrUpdateOrgSecret(
+    org: string,
+    secretName: string,
+    secretValue: string,
+    visibility: OrgSecretVisibility,
+    selectedRepositoryIds: number[] = [],
+  ): Promise<void> {
+    await this.audited(`org:${org}`, secretName, "set", async () => {
+      const publicKeyData = await this.getOrgPublicKey(org);
+      const { encryptedValue, fingerprint } = await this.encryptSecret(
+        secretValue,
+        publicKeyData.key,
+      );
+
+      const { status } = await this.octokit.request(
+        "PUT /orgs/{org}/actions/secrets/{secret_name}",
+        {
+          org,
+          secret_name: secretName,
+          encrypted_value: encryptedValue,
+          key_id: publicKeyData.key_id,
+          visibility,
+          selected_repository_ids:
+            visibility === "selected" ? selectedRepositoryIds : undefined,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: writeOperation(status), fingerprint };
+    });
+  }
+
+  /**
+   * Change which repositories can access an organization secret
+   * without touching its value
+   */
+  async updateOrgSecretVisibility(
+    org: string,
+    secretName: string,
+    visibility: OrgSecretVisibility,
+    selectedRepositoryIds: number[] = [],
+  ): Promise<void> {
+    await this.octokit.request(
+      "PUT /orgs/{org}/actions/secrets/{secret_name}",
+      {
+        org,
+        secret_name: secretName,
+        visibility,
+        selected_repository_ids:
+          visibility === "selected" ? selectedRepositoryIds : undefined,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      },
+    );
+  }
+
+  /**
+   * Delete an organization secret
+   */
+  async deleteOrgSecret(org: string, secretName: string): Promise<void> {
+    await this.audited(`org:${org}`, secretName, "delete", async () => {
+      await this.octokit.request(
+        "DELETE /orgs/{org}/actions/secrets/{secret_name}",
+        {
+          org,
+          secret_name: secretName,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: "delete" };
+    });
+  }
+
+  /**
+   * List the repositories that can access a "selected" organization secret
+   */
+  async listOrgSecretRepositories(
+    org: string,
+    secretName: string,
+  ): Promise<Repository[]> {
+    return this.paginate<Repository>(
+      "GET /orgs/{org}/actions/secrets/{secret_name}/repositories",
+      {
+        org,
+        secret_name: secretName,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+        per_page: 100,
+      },
+    );
+  }
+
+  /**
+   * Grant a repository access to a "selected" organization secret
+   */
+  async addOrgSecretRepository(
+    org: string,
+    secretName: string,
+    repositoryId: number,
+  ): Promise<void> {
+    await this.octokit.request(
+      "PUT /orgs/{org}/actions/secrets/{secret_name}/repositories/{repository_id}",
+      {
+        org,
+        secret_name: secretName,
+        repository_id: repositoryId,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      },
+    );
+  }
+
+  /**
+   * Revoke a repository's access to a "selected" organization secret
+   */
+  async removeOrgSecretRepository(
+    org: string,
+    secretName: string,
+    repositoryId: number,
+  ): Promise<void> {
+    await this.octokit.request(
+      "DELETE /orgs/{org}/actions/secrets/{secret_name}/repositories/{repository_id}",
+      {
+        org,
+        secret_name: secretName,
+        repository_id: repositoryId,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      },
+    );
+  }
+
+  /**
+   * List the authenticated user's Codespaces secrets
+   */
+  async listUserCodespacesSecrets(): Promise<OrgSecret[]> {
+    return this.paginate<OrgSecret>("GET /user/codespaces/secrets", {
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
+      },
+      per_page: 100,
+    });
+  }
+
+  /**
+   * Get the authenticated user's public key for encrypting Codespaces secrets
+   */
+  private async getUserCodespacesPublicKey(): Promise<PublicKey> {
+    return this.cachedPublicKey("user:codespaces", async () => {
+      const { data } = await this.octokit.request(
+        "GET /user/codespaces/secrets/public-key",
+        {
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return data;
+    });
+  }
+
+  /**
+   * Create or update a Codespaces secret of the authenticated user,
+   * available to codespaces of the given repositories
+   */
+  async createOrUpdateUserCodespacesSecret(
+    secretName: string,
+    secretValue: string,
+    selectedRepositoryIds: number[],
+  ): Promise<void> {
+    await this.audited("user:codespaces", secretName, "set", async () => {
+      const publicKeyData = await this.getUserCodespacesPublicKey();
+      const { encryptedValue, fingerprint } = await this.encryptSecret(
+        secretValue,
+        publicKeyData.key,
+      );
+
+      const { status } = await this.octokit.request(
+        "PUT /user/codespaces/secrets/{secret_name}",
+        {
+          secret_name: secretName,
+          encrypted_value: encryptedValue,
+          key_id: publicKeyData.key_id,
+          selected_repository_ids: selectedRepositoryIds,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: writeOperation(status), fingerprint };
+    });
+  }
+
+  /**
+   * Delete a Codespaces secret of the authenticated user
+   */
+  async deleteUserCodespacesSecret(secretName: string): Promise<void> {
+    await this.audited("user:codespaces", secretName, "delete", async () => {
+      await this.octokit.request(
+        "DELETE /user/codespaces/secrets/{secret_name}",
+        {
+          secret_name: secretName,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+      return { operation: "delete" };
+    });
+  }
+
+  /**
+   * List all configuration variables in a repository
+   */
+  async listRepoVariables(owner: string, repo: string): Promise<Variable[]> {
+    return this.paginate<Variable>(
+      "GET /repos/{owner}/{repo}/actions/variables",
+      {
+        owner,
+        repo,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+        per_page: 30,
+      },
+    );
+  }
+
+  /**
+   * Create or update a repository variable.
+   * Variables have separate create and update endpoints, so an update
+   * that finds no existing variable falls back to creating it.
+   */
+  async createOrUpdateRepoVariable(
+    owner: string,
+    repo: string,
+    name: string,
+    value: string,
+  ): Promise<void> {
+    try {
+      await this.octokit.request(
+        "PATCH /repos/{owner}/{repo}/actions/variables/{name}",
+        {
+          owner,
+          repo,
+          name,
+          value,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+
+      await this.octokit.request(
+        "POST /repos/{owner}/{repo}/actions/variables",
+        {
+          owner,
+          repo,
+          name,
+          value,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+    }
+  }
+
+  /**
+   * Delete a repository variable
+   */
+  async deleteRepoVariable(
+    owner: string,
+    repo: string,
+    name: string,
+  ): Promise<void> {
+    await this.octokit.request(
+      "DELETE /repos/{owner}/{repo}/actions/variables/{name}",
+      {
+        owner,
+        repo,
+        name,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      },
+    );
+  }
+
+  /**
+   * List all configuration variables in a deployment environment
+   */
+  async listEnvironmentVariables(
+    owner: string,
+    repo: string,
+    environment: string,
+  ): Promise<Variable[]> {
+    return this.paginate<Variable>(
+      "GET /repos/{owner}/{repo}/environments/{environment_name}/variables",
+      {
+        owner,
+        repo,
+        environment_name: environment,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+        per_page: 30,
+      },
+    );
+  }
+
+  /**
+   * Create or update a deployment environment variable
+   */
+  async createOrUpdateEnvironmentVariable(
+    owner: string,
+    repo: string,
+    environment: string,
+    name: string,
+    value: string,
+  ): Promise<void> {
+    try {
+      await this.octokit.request(
+        "PATCH /repos/{owner}/{repo}/environments/{environment_name}/variables/{name}",
+        {
+          owner,
+          repo,
+          environment_name: environment,
+          name,
+          value,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+
+      await this.octokit.request(
+        "POST /repos/{owner}/{repo}/environments/{environment_name}/variables",
+        {
+          owner,
+          repo,
+          environment_name: environment,
+          name,
+          value,
+          headers: {
+            "X-GitHub-Api-Version": this.apiVersion,
+          },
+        },
+      );
+    }
+  }
+
+  /**
+   * Delete a deployment environment variable
+   */
+  async deleteEnvironmentVariable(
+    owner: string,
+    repo: string,
+    environment: string,
+    name: string,
+  ): Promise<void> {
+    await this.octokit.request(
+      "DELETE /repos/{owner}/{repo}/environments/{environment_name}/variables/{name}",
+      {
+        owner,
+        repo,
+        environment_name: environment,
+        name,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      },
+    );
+  }
+
+  /**
+   * List all configuration variables in an organization
+   */
+  async listOrgVariables(org: string): Promise<OrgVariable[]> {
+    return this.paginate<OrgVariable>("GET /orgs/{org}/actions/variables", {
+      org,
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
+      },
+      per_page: 30,
+    });
+  }
+
+  /**
+   * Create or update an organization variable.
+   * `selectedRepositoryIds` is only used with the "selected" visibility.
+   */
+  async createOrUpdateOrgVariable(
+    org: string,
+    name: string,
+    value: string,
+    visibility: OrgSecretVisibility,
+    selectedRepositoryIds: number[] = [],
+  ): Promise<void> {
+    const selected_repository_ids =
+      visibility === "selected" ? selectedRepositoryIds : undefined;
+
+    try {
+      await this.octokit.request("PATCH /orgs/{org}/actions/variables/{name}", {
+        org,
+        name,
+        value,
+        visibility,
+        selected_repository_ids,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      });
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+
+      await this.octokit.request("POST /orgs/{org}/actions/variables", {
+        org,
+        name,
+        value,
+        visibility,
+        selected_repository_ids,
+        headers: {
+          "X-GitHub-Api-Version": this.apiVersion,
+        },
+      });
+    }
+  }
+
+  /**
+   * Delete an organization variable
+   */
+  async deleteOrgVariable(org: string, name: string): Promise<void> {
+    await this.octokit.request("DELETE /orgs/{org}/actions/variables/{name}", {
+      org,
+      name,
+      headers: {
+        "X-GitHub-Api-Version": this.apiVersion,
+      },
+    });
+  }
+
+  /**
+   * List the variables of a repository or environment target
+   */
+  async listVariables(target: SecretTarget): Promise<Variable[]> {
+    assertActionsTarget(target, "Configuration variables");
+    return target.environment
+      ? this.listEnvironmentVariables(
+          target.owner,
+          target.repo,
+          target.environment,
+        )
+      : this.listRepoVariables(target.owner, target.repo);
+  }
+
+  /**
+   * Create or update a variable on a repository or environment target
+   */
+  async createOrUpdateVariable(
+    target: SecretTarget,
+    name: string,
+    value: string,
+  ): Promise<void> {
+    assertActionsTarget(target, "Configuration variables");
+    if (target.environment) {
+      await this.createOrUpdateEnvironmentVariable(
+        target.owner,
+        target.repo,
+        target.environment,
+        name,
+        value,
+      );
+    } else {
+      await this.createOrUpdateRepoVariable(
+        target.owner,
+        target.repo,
+        name,
+        value,
+      );
+    }
+  }
+
+  /**
+   * Delete a variable from a repository or environment target
+   */
+  async deleteVariable(target: SecretTarget, name: string): Promise<void> {
+    assertActionsTarget(target, "Configuration variables");
+    if (target.environment) {
+      await this.deleteEnvironmentVariable(
+        target.owner,
+        target.repo,
+        target.environment,
+        name,
+      );
+    } else {
+      await this.deleteRepoVariable(target.owner, target.repo, name);
+    }
+  }
+
+  /**
+   * Batch create/update multiple variables
+   */
+  async batchCreateVariables(
+    target: SecretTarget,
+    variables: Record<string, string>,
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
+    return this.runBatch(
+      Object.keys(variables),
+      (name) => this.createOrUpdateVariable(target, name, variables[name]),
+      options,
+    );
+  }
+}
+
+/**
+ * Reject targets whose kind doesn't support the given feature
+ */
+function assertActionsTarget(target: SecretTarget, feature: string) {
+  if (target.kind && target.kind !== "actions") {
+    throw new Error(
+      `${feature} are only available for Actions, not ${target.kind}.`,
+    );
+  }
+}
+
+/**
+ * Get the environment name of a target, rejecting kinds that have
+ * no environment secrets
+ */
+function environmentOf(target: SecretTarget): string {
+  assertActionsTarget(target, "Environment secrets");
+  return target.environment!;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { status?: unknown })?.status === 404;
+}
+
+/**
+ * GitHub answers a secret write with 201 when it created the secret
+ * and 204 when it replaced one
+ */
+function writeOperation(status: number): AuditOperation {
+  return status === 201 ? "create" : "update";
 }
@@ -0,0 +1,35 @@
+/**
+ * Convert a simple glob (`*` and `?` wildcards) into an anchored RegExp
+ */
+export function globToRegExp(pattern: string, flags = ""): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Split a comma-separated list of globs, ignoring blanks
+ */
+export function parseGlobList(value: string): string[] {
+  return value
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether a name matches any of the given globs
+ */
+export function matchesAnyGlob(
+  name: string,
+  patterns: string[],
+  flags = "",
+): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern, flags).test(name));
+}
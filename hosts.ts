@@ -0,0 +1,133 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getConfigDir } from "./credentials.js";
+
+/**
+ * Where a GitHub instance serves its REST API and its web pages. The web
+ * URL also serves the OAuth device flow.
+ */
+export interface GitHubHost {
+  /** e.g. `github.com` or `github.example.com`, as in git remotes */
+  hostname: string;
+  apiUrl: string;
+  webUrl: string;
+}
+
+export const GITHUB_COM: GitHubHost = {
+  hostname: "github.com",
+  apiUrl: "https://api.github.com",
+  webUrl: "https://github.com",
+};
+
+/**
+ * Host settings from a flag, the environment or the config file. The
+ * URLs override the ones derived from the hostname, e.g. to point at a
+ * stub server.
+ */
+export interface HostSettings {
+  host?: string;
+  apiUrl?: string;
+  oauthUrl?: string;
+}
+
+export function getConfigPath(): string {
+  return join(getConfigDir(), "config.json");
+}
+
+/**
+ * The host of a GitHub Enterprise Server, which serves its API under
+ * `/api/v3`
+ */
+export function enterpriseHost(hostname: string): GitHubHost {
+  const name = normalizeHostname(hostname);
+  if (name === GITHUB_COM.hostname) {
+    return GITHUB_COM;
+  }
+  return {
+    hostname: name,
+    apiUrl: `https://${name}/api/v3`,
+    webUrl: `https://${name}`,
+  };
+}
+
+/**
+ * Accept `github.example.com` as well as `https://github.example.com/`
+ */
+export function normalizeHostname(value: string): string {
+  const trimmed = value.trim().replace(/\/+$/, "");
+  try {
+    return new URL(
+      /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+    ).host.toLowerCase();
+  } catch {
+    throw new Error(`"${value}" is not a host name`);
+  }
+}
+
+export function isGitHubCom(host: GitHubHost): boolean {
+  return host.hostname === GITHUB_COM.hostname;
+}
+
+/**
+ * Build the host from the first source that sets each value: the given
+ * settings (flags), then GH_HOST, GH_SECRETS_API_URL and
+ * GH_SECRETS_OAUTH_URL, then the config file, then github.com
+ */
+export function resolveHost(flags: HostSettings = {}): GitHubHost {
+  const config = loadConfig();
+  const pick = (key: keyof HostSettings, variable: string) =>
+    flags[key] || process.env[variable] || config[key];
+
+  const hostname = pick("host", "GH_HOST");
+  const base = hostname ? enterpriseHost(hostname) : GITHUB_COM;
+  const apiUrl = pick("apiUrl", "GH_SECRETS_API_URL");
+  const webUrl = pick("oauthUrl", "GH_SECRETS_OAUTH_URL");
+
+  return {
+    hostname: base.hostname,
+    apiUrl: apiUrl ? apiUrl.replace(/\/+$/, "") : base.apiUrl,
+    webUrl: webUrl ? webUrl.replace(/\/+$/, "") : base.webUrl,
+  };
+}
+
+function loadConfig(): HostSettings {
+  const path = getConfigPath();
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as HostSettings;
+  } catch {
+    throw new Error(`${path} is not valid JSON`);
+  }
+}
+
+/**
+ * Remember the host for later runs. URLs are only kept when they
+ * differ from the hostname's defaults, e.g. for a stub server.
+ */
+export function saveHost(host: GitHubHost): string {
+  const defaults = enterpriseHost(host.hostname);
+  const config: HostSettings = { ...loadConfig() };
+
+  if (isGitHubCom(host)) {
+    delete config.host;
+  } else {
+    config.host = host.hostname;
+  }
+  if (host.apiUrl !== defaults.apiUrl) {
+    config.apiUrl = host.apiUrl;
+  } else {
+    delete config.apiUrl;
+  }
+  if (host.webUrl !== defaults.webUrl) {
+    config.oauthUrl = host.webUrl;
+  } else {
+    delete config.oauthUrl;
+  }
+
+  const path = getConfigPath();
+  mkdirSync(getConfigDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`);
+  return path;
+}
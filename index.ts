@@ -1,9 +1,26 @@
 #!/usr/bin/env node
 
 import { SecretManagerCLI } from "./cli.js";
+import {
+  isCommandInvocation,
+  parseGlobalFlags,
+  runCommand,
+} from "./commands.js";
 
-const cli = new SecretManagerCLI();
-cli.start().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
+const { argv: args, flags } = parseGlobalFlags(process.argv.slice(2));
+
+if (isCommandInvocation(args)) {
+  runCommand(args, flags).then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error("Fatal error:", error);
+      process.exit(1);
+    },
+  );
+} else {
+  const cli = new SecretManagerCLI(flags);
+  cli.start().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
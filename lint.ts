@@ -0,0 +1,174 @@
+import { basename, dirname } from "path";
+import chalk from "chalk";
+import { isValueReference, runCommand } from "./references.js";
+import { MAX_SECRET_BYTES, formatBytes } from "./secret-size.js";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "case-collision"
+  | "empty"
+  | "placeholder"
+  | "whitespace"
+  | "too-large"
+  | "tracked-file";
+
+/**
+ * A problem with secrets about to be uploaded. Errors are uploads that
+ * fail or lose data; warnings are values that are probably wrong.
+ */
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** The secret, or none for a problem with several or with the file */
+  name?: string;
+  message: string;
+}
+
+export interface LintOptions {
+  /** File the secrets were read from, checked for being tracked by git */
+  sourceFile?: string;
+}
+
+/**
+ * Values that were never filled in, e.g. copied from a `.env.example`
+ */
+const PLACEHOLDER_PATTERNS = [
+  /^(change[-_ ]?me|replace[-_ ]?me|todo|tbd|fixme|placeholder|dummy|example|xxx+|\*+|\.\.\.)$/i,
+  /^your[-_ ].+/i,
+  /^<[^<>]+>$/,
+  /^\{\{[^{}]+\}\}$/,
+];
+
+/**
+ * Check secrets before they're uploaded. References such as `@file:`
+ * are resolved later, so only literal values are checked.
+ */
+export function lintSecrets(
+  secrets: Record<string, string>,
+  options: LintOptions = {},
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  // A file of only references holds no secrets and is fine to commit
+  if (
+    options.sourceFile &&
+    !Object.values(secrets).every(isValueReference) &&
+    isTrackedByGit(options.sourceFile)
+  ) {
+    findings.push({
+      rule: "tracked-file",
+      severity: "warning",
+      message: `${options.sourceFile} is tracked by git; once committed, its secrets stay in the repository history`,
+    });
+  }
+
+  const byUpperName = new Map<string, string[]>();
+  for (const name of Object.keys(secrets)) {
+    const names = byUpperName.get(name.toUpperCase()) ?? [];
+    names.push(name);
+    byUpperName.set(name.toUpperCase(), names);
+  }
+  for (const names of byUpperName.values()) {
+    if (names.length > 1) {
+      findings.push({
+        rule: "case-collision",
+        severity: "error",
+        message: `${names.join(" and ")} are the same secret on GitHub, which uppercases names; only one value is kept`,
+      });
+    }
+  }
+
+  for (const [name, value] of Object.entries(secrets)) {
+    findings.push(...lintValue(name, value));
+  }
+
+  return findings;
+}
+
+function lintValue(name: string, written: string): LintFinding[] {
+  if (isValueReference(written)) {
+    return [];
+  }
+  // A doubled @ only protects a literal from being read as a reference
+  const value = written.startsWith("@@") ? written.slice(1) : written;
+
+  if (value === "") {
+    return [
+      { rule: "empty", severity: "warning", name, message: "value is empty" },
+    ];
+  }
+
+  const findings: LintFinding[] = [];
+  if (PLACEHOLDER_PATTERNS.some((pattern) => pattern.test(value.trim()))) {
+    findings.push({
+      rule: "placeholder",
+      severity: "warning",
+      name,
+      message: `"${value.trim()}" looks like a placeholder`,
+    });
+  }
+
+  // Multi-line values such as PEM keys often end with a newline on purpose
+  if (/^[ \t]|[ \t]$/.test(value.replace(/\r?\n$/, ""))) {
+    findings.push({
+      rule: "whitespace",
+      severity: "warning",
+      name,
+      message: "value starts or ends with whitespace",
+    });
+  }
+
+  const bytes = Buffer.byteLength(value, "utf-8");
+  if (bytes > MAX_SECRET_BYTES) {
+    findings.push({
+      rule: "too-large",
+      severity: "error",
+      name,
+      message: `value is ${formatBytes(bytes)}, over GitHub's ${formatBytes(MAX_SECRET_BYTES)} limit`,
+    });
+  }
+
+  return findings;
+}
+
+function isTrackedByGit(path: string): boolean {
+  try {
+    runCommand(
+      ["git", "ls-files", "--error-unmatch", "--", basename(path)],
+      dirname(path),
+    );
+    return true;
+  } catch {
+    // Untracked, or not in a git checkout at all
+    return false;
+  }
+}
+
+/**
+ * Whether the findings stop an upload: errors always do, and in strict
+ * mode warnings do too
+ */
+export function isBlocking(findings: LintFinding[], strict: boolean): boolean {
+  return findings.some((finding) => strict || finding.severity === "error");
+}
+
+/**
+ * Why an upload was stopped, pointing at --strict only when warnings
+ * alone stopped it
+ */
+export function formatBlockedMessage(
+  findings: LintFinding[],
+  restart: string,
+): string {
+  return findings.some((finding) => finding.severity === "error")
+    ? "Nothing was uploaded. Fix the errors above."
+    : `Strict mode: nothing was uploaded. Fix the problems above or ${restart} without --strict.`;
+}
+
+export function formatLintFinding(finding: LintFinding): string {
+  const subject = finding.name ? `${finding.name}: ` : "";
+  return finding.severity === "error"
+    ? chalk.red(`✗ ${subject}${finding.message}`)
+    : chalk.yellow(`⚠ ${subject}${finding.message}`);
+}
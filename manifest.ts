@@ -0,0 +1,576 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import chalk from "chalk";
+import { parse } from "yaml";
+import { validateSecretName } from "./env-parser.js";
+import { readSecretsFile } from "./formats.js";
+import {
+  BatchOptions,
+  BatchResult,
+  GitHubService,
+  OrgSecretVisibility,
+  Repository,
+  SECRET_KINDS,
+  SecretKind,
+  SecretTarget,
+  formatTarget,
+} from "./github.js";
+import {
+  escapeValue,
+  isValueReference,
+  resolveValueReference,
+  runCommand,
+} from "./references.js";
+
+export const DEFAULT_MANIFEST_PATH = "gh-secrets.yaml";
+
+/**
+ * Where the value of a declared secret comes from. The manifest only
+ * ever names sources, never values.
+ */
+export type ValueSource =
+  | { env_file: string; key?: string }
+  | { env: string }
+  | { command: string | string[] };
+
+export interface RepoManifestTarget {
+  repo: string;
+  environment?: string;
+  kind?: SecretKind;
+  /** Delete secrets that aren't declared */
+  prune?: boolean;
+  secrets: Record<string, ValueSource>;
+}
+
+export interface OrgManifestTarget {
+  org: string;
+  visibility?: OrgSecretVisibility;
+  /** Repository names, for `visibility: selected` */
+  repositories?: string[];
+  prune?: boolean;
+  secrets: Record<string, ValueSource>;
+}
+
+export type ManifestTarget = RepoManifestTarget | OrgManifestTarget;
+
+export interface Manifest {
+  path: string;
+  targets: ManifestTarget[];
+}
+
+export interface SecretChange {
+  name: string;
+  action: "create" | "update" | "delete";
+  source?: ValueSource;
+}
+
+export interface TargetPlan {
+  target: ManifestTarget;
+  label: string;
+  changes: SecretChange[];
+  /** Value sources that can't be read; apply refuses to run with these */
+  problems: string[];
+}
+
+export interface TargetResult {
+  label: string;
+  result: BatchResult;
+}
+
+/**
+ * A manifest that doesn't match the expected layout
+ */
+export class ManifestError extends Error {
+  constructor(message: string, file: string) {
+    super(`${file}: ${message}`);
+    this.name = "ManifestError";
+  }
+}
+
+/**
+ * Read and validate a secrets manifest
+ */
+export function loadManifest(path: string): Manifest {
+  const document = parse(readFileSync(path, "utf-8"));
+  const fail = (message: string): never => {
+    throw new ManifestError(message, path);
+  };
+
+  if (!isObject(document) || !Array.isArray(document.targets)) {
+    fail("Expected a top-level `targets:` list");
+  }
+
+  const targets = (document.targets as unknown[]).map((raw, index) => {
+    const at = `targets[${index}]`;
+    if (!isObject(raw)) {
+      return fail(`${at} must be a mapping`);
+    }
+
+    const secrets = validateSecrets(raw.secrets, at, fail);
+
+    if (typeof raw.repo === "string") {
+      if (!/^[\w.-]+\/[\w.-]+$/.test(raw.repo)) {
+        fail(`${at}.repo must be owner/repo`);
+      }
+      const kind = (raw.kind ?? "actions") as SecretKind;
+      if (!SECRET_KINDS.includes(kind)) {
+        fail(`${at}.kind must be one of ${SECRET_KINDS.join(", ")}`);
+      }
+      if (raw.environment !== undefined && kind !== "actions") {
+        fail(`${at}.environment only works with kind: actions`);
+      }
+      return {
+        repo: raw.repo,
+        environment: optionalString(raw.environment, `${at}.environment`, fail),
+        kind,
+        prune: raw.prune === true,
+        secrets,
+      } satisfies RepoManifestTarget;
+    }
+
+    if (typeof raw.org === "string") {
+      const visibility = (raw.visibility ?? "private") as OrgSecretVisibility;
+      if (!["all", "private", "selected"].includes(visibility)) {
+        fail(`${at}.visibility must be all, private or selected`);
+      }
+      const repositories = (raw.repositories ?? []) as unknown[];
+      if (
+        !Array.isArray(repositories) ||
+        !repositories.every((r) => typeof r === "string")
+      ) {
+        fail(`${at}.repositories must be a list of repository names`);
+      }
+      if (visibility === "selected" && repositories.length === 0) {
+        fail(`${at} has visibility: selected but no repositories`);
+      }
+      return {
+        org: raw.org,
+        visibility,
+        repositories: repositories as string[],
+        prune: raw.prune === true,
+        secrets,
+      } satisfies OrgManifestTarget;
+    }
+
+    return fail(`${at} needs either repo: or org:`);
+  });
+
+  return { path, targets };
+}
+
+function validateSecrets(
+  raw: unknown,
+  at: string,
+  fail: (message: string) => never,
+): Record<string, ValueSource> {
+  if (!isObject(raw)) {
+    return fail(`${at}.secrets must map secret names to value sources`);
+  }
+
+  for (const [name, source] of Object.entries(raw)) {
+    const where = `${at}.secrets.${name}`;
+    if (!validateSecretName(name)) {
+      fail(`${where} is not a valid secret name`);
+    }
+
+    const kinds = isObject(source)
+      ? ["env_file", "env", "command"].filter((k) => k in source)
+      : [];
+    if (kinds.length !== 1) {
+      fail(`${where} needs exactly one of env_file, env or command`);
+    }
+    if ("value" in (source as object)) {
+      fail(`${where} must not contain a value; reference a source instead`);
+    }
+  }
+
+  return raw as Record<string, ValueSource>;
+}
+
+function optionalString(
+  value: unknown,
+  at: string,
+  fail: (message: string) => never,
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === "string" ? value : fail(`${at} must be a string`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRepoTarget(target: ManifestTarget): target is RepoManifestTarget {
+  return "repo" in target;
+}
+
+function toSecretTarget(target: RepoManifestTarget): SecretTarget {
+  const [owner, repo] = target.repo.split("/");
+  return { owner, repo, environment: target.environment, kind: target.kind };
+}
+
+/**
+ * Human-readable label for a manifest target
+ */
+export function describeManifestTarget(target: ManifestTarget): string {
+  return isRepoTarget(target)
+    ? formatTarget(toSecretTarget(target))
+    : `${target.org} (organization, ${target.visibility})`;
+}
+
+/**
+ * Short description of a value source for plan output
+ */
+export function describeSource(source: ValueSource): string {
+  if ("env_file" in source) {
+    return source.key ? `${source.env_file} → ${source.key}` : source.env_file;
+  }
+  if ("env" in source) {
+    return `$${source.env}`;
+  }
+  return "command";
+}
+
+/**
+ * Compare the manifest with the live secrets of every target. Commands
+ * aren't run while planning; file and environment sources are checked.
+ */
+export async function planManifest(
+  github: GitHubService,
+  manifest: Manifest,
+): Promise<TargetPlan[]> {
+  const sources = new SourceReader(
+    dirname(manifest.path),
+    github.resolvesReferences(),
+  );
+  const plans: TargetPlan[] = [];
+
+  for (const target of manifest.targets) {
+    const remote = isRepoTarget(target)
+      ? await github.listSecrets(toSecretTarget(target))
+      : await github.listOrgSecrets(target.org);
+    const remoteNames = new Set(remote.map((s) => s.name.toUpperCase()));
+    const declaredNames = new Set(
+      Object.keys(target.secrets).map((n) => n.toUpperCase()),
+    );
+
+    const changes: SecretChange[] = Object.entries(target.secrets).map(
+      ([name, source]) => ({
+        name,
+        action: remoteNames.has(name.toUpperCase()) ? "update" : "create",
+        source,
+      }),
+    );
+
+    if (target.prune) {
+      remote
+        .filter((s) => !declaredNames.has(s.name.toUpperCase()))
+        .forEach((s) => changes.push({ name: s.name, action: "delete" }));
+    }
+
+    const problems = Object.entries(target.secrets).flatMap(
+      ([name, source]) => {
+        const problem = sources.check(name, source);
+        return problem ? [`${name}: ${problem}`] : [];
+      },
+    );
+    if (!isRepoTarget(target) && target.visibility === "selected") {
+      const repos = await github.listOrgRepositories(target.org);
+      problems.push(
+        ...findMissingRepositories(target, repos).map(
+          (name) => `Repository ${name} not found in ${target.org}`,
+        ),
+      );
+    }
+
+    plans.push({
+      target,
+      label: describeManifestTarget(target),
+      changes,
+      problems,
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Render plans as printable lines, ending with a summary
+ */
+export function formatManifestPlan(plans: TargetPlan[]): string[] {
+  const lines: string[] = [];
+  const counts = { create: 0, update: 0, delete: 0 };
+
+  for (const plan of plans) {
+    lines.push(chalk.bold(plan.label));
+
+    for (const change of plan.changes) {
+      counts[change.action]++;
+      const source = change.source
+        ? chalk.gray(` (${describeSource(change.source)})`)
+        : "";
+      if (change.action === "create") {
+        lines.push(chalk.green(`  + ${change.name}`) + source);
+      } else if (change.action === "update") {
+        lines.push(chalk.cyan(`  ~ ${change.name}`) + source);
+      } else {
+        lines.push(chalk.red(`  - ${change.name}`));
+      }
+    }
+
+    plan.problems.forEach((problem) =>
+      lines.push(chalk.yellow(`  ! ${problem}`)),
+    );
+    lines.push("");
+  }
+
+  lines.push(
+    `Plan: ${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete.`,
+  );
+  return lines;
+}
+
+/**
+ * Resolve every value and carry out the plans, one target at a time
+ */
+export async function applyManifestPlan(
+  github: GitHubService,
+  manifest: Manifest,
+  plans: TargetPlan[],
+  options: BatchOptions = {},
+): Promise<TargetResult[]> {
+  const sources = new SourceReader(
+    dirname(manifest.path),
+    github.resolvesReferences(),
+  );
+  const results: TargetResult[] = [];
+
+  for (const plan of plans) {
+    const values: Record<string, string> = {};
+    const failed: BatchResult["failed"] = [];
+
+    for (const change of plan.changes) {
+      if (change.action === "delete") {
+        continue;
+      }
+      try {
+        values[change.name] = sources.read(change.name, change.source!);
+      } catch (error) {
+        failed.push({
+          name: change.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const deletes = plan.changes
+      .filter((c) => c.action === "delete")
+      .map((c) => c.name);
+
+    const written = isRepoTarget(plan.target)
+      ? await applyRepoTarget(github, plan.target, values, deletes, options)
+      : await applyOrgTarget(github, plan.target, values, deletes);
+
+    results.push({
+      label: plan.label,
+      result: {
+        success: written.success,
+        failed: [...failed, ...written.failed],
+      },
+    });
+  }
+
+  return results;
+}
+
+async function applyRepoTarget(
+  github: GitHubService,
+  target: RepoManifestTarget,
+  values: Record<string, string>,
+  deletes: string[],
+  options: BatchOptions,
+): Promise<BatchResult> {
+  const secretTarget = toSecretTarget(target);
+  const uploaded = await github.batchCreateSecrets(
+    secretTarget,
+    values,
+    options,
+  );
+  const deleted = await github.batchDeleteSecrets(
+    secretTarget,
+    deletes,
+    options,
+  );
+
+  return {
+    success: [
+      ...uploaded.success,
+      ...deleted.success.map((name) => `${name} (deleted)`),
+    ],
+    failed: [...uploaded.failed, ...deleted.failed],
+  };
+}
+
+function findRepository(
+  repos: Repository[],
+  name: string,
+): Repository | undefined {
+  return repos.find((r) => r.name === name || r.full_name === name);
+}
+
+/**
+ * Repositories a `visibility: selected` target names that the
+ * organization doesn't have
+ */
+function findMissingRepositories(
+  target: OrgManifestTarget,
+  repos: Repository[],
+): string[] {
+  return (target.repositories ?? []).filter(
+    (name) => !findRepository(repos, name),
+  );
+}
+
+async function applyOrgTarget(
+  github: GitHubService,
+  target: OrgManifestTarget,
+  values: Record<string, string>,
+  deletes: string[],
+): Promise<BatchResult> {
+  const success: string[] = [];
+  const failed: BatchResult["failed"] = [];
+
+  const record = async (name: string, operation: () => Promise<void>) => {
+    try {
+      await operation();
+      success.push(name);
+    } catch (error) {
+      failed.push({
+        name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  // Writes fail with this, rather than the whole apply, when the
+  // selected repositories can't be resolved
+  let lookupError: string | null = null;
+  let repositoryIds: number[] = [];
+  if (target.visibility === "selected") {
+    try {
+      const repos = await github.listOrgRepositories(target.org);
+      // Planning reports missing repositories, but one may be gone since
+      const missing = findMissingRepositories(target, repos);
+      if (missing.length > 0) {
+        lookupError = `Repository ${missing.join(", ")} not found in ${target.org}`;
+      }
+      repositoryIds = target.repositories!.flatMap(
+        (name) => findRepository(repos, name)?.id ?? [],
+      );
+    } catch (error) {
+      lookupError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    await record(name, async () => {
+      if (lookupError) {
+        throw new Error(lookupError);
+      }
+      await github.createOrUpdateOrgSecret(
+        target.org,
+        name,
+        value,
+        target.visibility!,
+        repositoryIds,
+      );
+    });
+  }
+
+  for (const name of deletes) {
+    await record(`${name} (deleted)`, () =>
+      github.deleteOrgSecret(target.org, name),
+    );
+  }
+
+  return { success, failed };
+}
+
+/**
+ * Reads value sources relative to the manifest, parsing each env file
+ * only once
+ */
+class SourceReader {
+  private files = new Map<string, Record<string, string>>();
+
+  constructor(
+    private baseDir: string,
+    /** Whether values are read as references later, so literals need escaping */
+    private resolveReferences: boolean,
+  ) {}
+
+  /**
+   * Describe why a source can't be read, without running commands
+   */
+  check(name: string, source: ValueSource): string | null {
+    if ("env_file" in source) {
+      const path = resolve(this.baseDir, source.env_file);
+      if (!existsSync(path)) {
+        return `${source.env_file} does not exist`;
+      }
+      try {
+        this.readEnvFileKey(source.env_file, source.key ?? name);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    }
+    if ("env" in source && process.env[source.env] === undefined) {
+      return `environment variable ${source.env} is not set`;
+    }
+    return null;
+  }
+
+  /**
+   * Read a value; env file sources default to the key named like the
+   * secret. Env file entries may be references, resolved relative to
+   * the env file, while environment and command values are taken
+   * literally.
+   */
+  read(name: string, source: ValueSource): string {
+    if ("env_file" in source) {
+      const value = this.readEnvFileKey(source.env_file, source.key ?? name);
+      if (!this.resolveReferences || !isValueReference(value)) {
+        return value;
+      }
+      const fileDir = dirname(resolve(this.baseDir, source.env_file));
+      return escapeValue(resolveValueReference(value, fileDir));
+    }
+    if ("env" in source) {
+      const value = process.env[source.env];
+      if (value === undefined) {
+        throw new Error(`Environment variable ${source.env} is not set`);
+      }
+      return this.literal(value);
+    }
+    return this.literal(runCommand(source.command, this.baseDir));
+  }
+
+  private literal(value: string): string {
+    return this.resolveReferences ? escapeValue(value) : value;
+  }
+
+  private readEnvFileKey(file: string, key: string): string {
+    const path = resolve(this.baseDir, file);
+    let entries = this.files.get(path);
+    if (!entries) {
+      entries = readSecretsFile(path);
+      this.files.set(path, entries);
+    }
+    if (!(key in entries)) {
+      throw new Error(`${key} not found in ${file}`);
+    }
+    return entries[key];
+  }
+}
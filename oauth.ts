@@ -14,106 +14,222 @@ export interface AccessTokenResponse {
   scope: string;
 }
 
+export interface PollOptions {
+  /** Seconds until the device code expires, from `expires_in` */
+  expiresIn?: number;
+  /** Stops polling with a DeviceFlowAbortedError */
+  signal?: AbortSignal;
+}
+
+/**
+ * An error code from the device flow, see
+ * https://docs.github.com/en/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps#error-codes-for-the-device-flow
+ */
+export class OAuthError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The user didn't enter the code before it expired */
+export class ExpiredTokenError extends OAuthError {}
+
+/** The user clicked cancel instead of authorizing */
+export class AccessDeniedError extends OAuthError {}
+
+/** The client ID is wrong */
+export class IncorrectClientCredentialsError extends OAuthError {}
+
+/** The device code is wrong or was already used */
+export class IncorrectDeviceCodeError extends OAuthError {}
+
+/** The OAuth App doesn't have "Enable Device Flow" checked */
+export class DeviceFlowDisabledError extends OAuthError {}
+
+export class UnsupportedGrantTypeError extends OAuthError {}
+
+/** Polling was stopped through the AbortSignal, e.g. by Ctrl+C */
+export class DeviceFlowAbortedError extends Error {
+  constructor() {
+    super("Device flow login was cancelled.");
+    this.name = "DeviceFlowAbortedError";
+  }
+}
+
+const OAUTH_ERRORS: Record<
+  string,
+  [new (code: string, message: string) => OAuthError, string]
+> = {
+  expired_token: [ExpiredTokenError, "Device code expired. Please try again."],
+  access_denied: [AccessDeniedError, "Access denied by user."],
+  incorrect_client_credentials: [
+    IncorrectClientCredentialsError,
+    "The OAuth App Client ID is not valid.",
+  ],
+  incorrect_device_code: [
+    IncorrectDeviceCodeError,
+    "The device code is not valid.",
+  ],
+  device_flow_disabled: [
+    DeviceFlowDisabledError,
+    'Device flow is not enabled for this OAuth App. Check "Enable Device Flow" in its settings.',
+  ],
+  unsupported_grant_type: [
+    UnsupportedGrantTypeError,
+    "The device flow grant type is not supported.",
+  ],
+};
+
+/**
+ * The typed error for an OAuth error code
+ */
+export function createOAuthError(
+  code: string,
+  description?: string,
+): OAuthError {
+  const [ErrorClass, message] = OAUTH_ERRORS[code] ?? [
+    OAuthError,
+    `OAuth error: ${description ?? code}`,
+  ];
+  return new ErrorClass(code, message);
+}
+
+/**
+ * Wait, or stop early when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DeviceFlowAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DeviceFlowAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export interface OAuthConfig {
   clientId: string;
   scopes: string[];
+  /** Web root serving `/login/...` (default: https://github.com) */
+  baseUrl?: string;
 }
 
 export class GitHubOAuthDevice {
   private clientId: string;
   private scopes: string[];
+  private baseUrl: string;
 
   constructor(config: OAuthConfig) {
     this.clientId = config.clientId;
     this.scopes = config.scopes;
+    this.baseUrl = config.baseUrl ?? "https://github.com";
   }
 
   /**
-   * Step 1: Request device and user verification codes
+   * POST to the device flow endpoints. GitHub reports most OAuth errors
+   * in a 200 response, so those are left to the caller.
    */
-  async requestDeviceCode(): Promise<DeviceCodeResponse> {
-    const response = await axios.post(
-      "https://github.com/login/device/code",
-      {
-        client_id: this.clientId,
-        scope: this.scopes.join(" "),
-      },
-      {
+  private async post(
+    path: string,
+    body: Record<string, string>,
+    signal?: AbortSignal,
+  ) {
+    try {
+      const response = await axios.post(`${this.baseUrl}${path}`, body, {
         headers: {
           Accept: "application/json",
           "Content-Type": "application/json",
         },
+        signal,
+      });
+      return response.data;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new DeviceFlowAbortedError();
+      }
+      const data = axios.isAxiosError(error) ? error.response?.data : null;
+      if (data?.error) {
+        throw createOAuthError(data.error, data.error_description);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Step 1: Request device and user verification codes
+   */
+  async requestDeviceCode(signal?: AbortSignal): Promise<DeviceCodeResponse> {
+    const data = await this.post(
+      "/login/device/code",
+      {
+        client_id: this.clientId,
+        scope: this.scopes.join(" "),
       },
+      signal,
     );
 
-    return response.data;
+    if (data.error) {
+      throw createOAuthError(data.error, data.error_description);
+    }
+    return data;
   }
 
   /**
-   * Step 2: Poll for access token
+   * Step 2: Poll for access token until the user authorizes, the device
+   * code expires or the signal aborts. `slow_down` raises the interval
+   * for all later polls, as the spec requires.
    */
   async pollForAccessToken(
     deviceCode: string,
     interval: number,
+    options: PollOptions = {},
   ): Promise<AccessTokenResponse> {
-    return new Promise((resolve, reject) => {
-      const poll = async () => {
-        try {
-          const response = await axios.post(
-            "https://github.com/login/oauth/access_token",
-            {
-              client_id: this.clientId,
-              device_code: deviceCode,
-              grant_type: "urn:ietf:params:oauth:grant-type:device_code",
-            },
-            {
-              headers: {
-                Accept: "application/json",
-                "Content-Type": "application/json",
-              },
-            },
-          );
-
-          const data = response.data;
-
-          // Check for errors
-          if (data.error) {
-            if (data.error === "authorization_pending") {
-              // Continue polling
-              setTimeout(poll, interval * 1000);
-              return;
-            } else if (data.error === "slow_down") {
-              // Increase interval by 5 seconds
-              setTimeout(poll, (interval + 5) * 1000);
-              return;
-            } else if (data.error === "expired_token") {
-              reject(new Error("Device code expired. Please try again."));
-              return;
-            } else if (data.error === "access_denied") {
-              reject(new Error("Access denied by user."));
-              return;
-            } else {
-              reject(new Error(`OAuth error: ${data.error}`));
-              return;
-            }
-          }
-
-          // Success!
-          if (data.access_token) {
-            resolve(data);
-            return;
-          }
-
-          // Unexpected response, continue polling
-          setTimeout(poll, interval * 1000);
-        } catch (error) {
-          reject(error);
-        }
-      };
-
-      // Start polling
-      poll();
-    });
+    const { signal } = options;
+    const deadline =
+      options.expiresIn === undefined
+        ? Infinity
+        : Date.now() + options.expiresIn * 1000;
+
+    for (;;) {
+      await sleep(interval * 1000, signal);
+      if (Date.now() >= deadline) {
+        throw createOAuthError("expired_token");
+      }
+
+      const data = await this.post(
+        "/login/oauth/access_token",
+        {
+          client_id: this.clientId,
+          device_code: deviceCode,
+          grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        },
+        signal,
+      );
+
+      if (data.access_token) {
+        return data;
+      }
+
+      if (data.error === "slow_down") {
+        // GitHub sends the new interval; otherwise add 5 seconds
+        interval =
+          typeof data.interval === "number" ? data.interval : interval + 5;
+      } else if (data.error && data.error !== "authorization_pending") {
+        throw createOAuthError(data.error, data.error_description);
+      }
+    }
   }
 
   /**
@@ -123,14 +239,15 @@ export class GitHubOAuthDevice {
    * For more control (e.g., showing the verification URL/code to users),
    * call requestDeviceCode() and pollForAccessToken() separately.
    */
-  async authenticate(): Promise<string> {
+  async authenticate(signal?: AbortSignal): Promise<string> {
     // Step 1: Get device code
-    const deviceCodeData = await this.requestDeviceCode();
+    const deviceCodeData = await this.requestDeviceCode(signal);
 
     // Step 2: Poll for token
     const tokenData = await this.pollForAccessToken(
       deviceCodeData.device_code,
       deviceCodeData.interval,
+      { expiresIn: deviceCodeData.expires_in, signal },
     );
 
     return tokenData.access_token;
@@ -0,0 +1,145 @@
+import { spawnSync } from "child_process";
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { resolve } from "path";
+
+/**
+ * Prefixes that turn a secret value into a reference to where the real
+ * value lives
+ */
+export const REFERENCE_PREFIXES = [
+  "@file:",
+  "@base64:",
+  "@cmd:",
+  "@env:",
+  "@pass:",
+  "@sops:",
+] as const;
+
+/**
+ * Whether a value is a reference rather than a literal. A literal that
+ * starts with one of the prefixes can be written with `@@`.
+ */
+export function isValueReference(value: string): boolean {
+  return REFERENCE_PREFIXES.some((prefix) => value.startsWith(prefix));
+}
+
+/**
+ * Protect a literal value from being read as a reference
+ */
+export function escapeValue(value: string): string {
+  return value.startsWith("@") ? `@${value}` : value;
+}
+
+/**
+ * Replace a reference by the value it points to:
+ *
+ * - `@file:./key.pem` - the file's content, as is; `~` is the home folder
+ * - `@base64:./release.keystore` - a binary file's content, base64-encoded
+ * - `@cmd:op read op://vault/item/field` - a shell command's output
+ * - `@env:NAME` - an environment variable
+ * - `@pass:ci/npm-token` - the first line of `pass show`
+ * - `@sops:secrets.enc.yaml#db.password` - a key from a sops-encrypted
+ *   file, or the whole decrypted file without `#key`
+ *
+ * Command output loses one trailing newline. Literals are returned
+ * unchanged, with a leading `@@` reduced to `@`.
+ */
+export function resolveValueReference(
+  value: string,
+  baseDir = process.cwd(),
+): string {
+  if (value.startsWith("@@")) {
+    return value.slice(1);
+  }
+
+  const prefix = REFERENCE_PREFIXES.find((p) => value.startsWith(p));
+  if (!prefix) {
+    return value;
+  }
+
+  const argument = value.slice(prefix.length).trim();
+  if (!argument) {
+    throw new Error(`${prefix} needs an argument`);
+  }
+
+  switch (prefix) {
+    case "@file:":
+      return readFileSync(expandPath(argument, baseDir), "utf-8");
+    case "@base64:":
+      return readFileSync(expandPath(argument, baseDir)).toString("base64");
+    case "@cmd:":
+      return runCommand(argument, baseDir);
+    case "@env:": {
+      const resolved = process.env[argument];
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${argument} is not set`);
+      }
+      return resolved;
+    }
+    case "@pass:":
+      return runCommand(["pass", "show", argument], baseDir).split("\n")[0];
+    case "@sops:": {
+      const [file, key] = argument.split("#");
+      const extract = key
+        ? [
+            "--extract",
+            key
+              .split(".")
+              .map((part) => `[${JSON.stringify(part)}]`)
+              .join(""),
+          ]
+        : [];
+      return runCommand(["sops", "--decrypt", ...extract, file], baseDir);
+    }
+  }
+}
+
+function expandPath(path: string, baseDir: string): string {
+  return resolve(baseDir, path.replace(/^~(?=$|[\\/])/, homedir()));
+}
+
+/**
+ * Run a command and return its output without one trailing newline.
+ * A string runs through the shell; a list runs without one.
+ */
+export function runCommand(command: string | string[], cwd: string): string {
+  const [file, ...args] = Array.isArray(command) ? command : [command];
+  const result = spawnSync(file, args, {
+    cwd,
+    encoding: "utf-8",
+    shell: !Array.isArray(command),
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  if (result.error) {
+    throw (result.error as NodeJS.ErrnoException).code === "ENOENT"
+      ? new Error(`${file} is not installed or not on the PATH`)
+      : result.error;
+  }
+  if (result.status !== 0) {
+    const label = Array.isArray(command) ? file : "Command";
+    const stderr = result.stderr.trim().split("\n").pop();
+    throw new Error(
+      `${label} exited with ${result.status}${stderr ? `: ${stderr}` : ""}`,
+    );
+  }
+  return result.stdout.replace(/\r?\n$/, "");
+}
+
+/**
+ * Resolve every reference in a set of values once, escaping the results
+ * so they are taken literally when written, e.g. to many repositories
+ */
+export function resolveAllReferences(
+  values: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [
+      name,
+      isValueReference(value)
+        ? escapeValue(resolveValueReference(value))
+        : value,
+    ]),
+  );
+}
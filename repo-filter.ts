@@ -0,0 +1,67 @@
+import { Repository } from "./github.js";
+
+export type RepositoryVisibility = "all" | "public" | "private" | "internal";
+
+export interface RepositoryFilters {
+  includeArchived: boolean;
+  includeForks: boolean;
+  visibility: RepositoryVisibility;
+  adminOnly: boolean;
+}
+
+export const DEFAULT_REPOSITORY_FILTERS: RepositoryFilters = {
+  includeArchived: false,
+  includeForks: true,
+  visibility: "all",
+  adminOnly: false,
+};
+
+/**
+ * Get a repository's visibility, falling back to the `private` flag
+ * for responses that don't include it
+ */
+function visibilityOf(repo: Repository): string {
+  return repo.visibility ?? (repo.private ? "private" : "public");
+}
+
+/**
+ * Apply the filters and an optional search term to a repository list.
+ * The term matches case-insensitively against the full name and description.
+ */
+export function filterRepositories(
+  repos: Repository[],
+  filters: RepositoryFilters,
+  term = "",
+): Repository[] {
+  const needle = term.trim().toLowerCase();
+
+  return repos.filter((repo) => {
+    if (!filters.includeArchived && repo.archived) return false;
+    if (!filters.includeForks && repo.fork) return false;
+    if (filters.adminOnly && !repo.permissions?.admin) return false;
+    if (
+      filters.visibility !== "all" &&
+      visibilityOf(repo) !== filters.visibility
+    ) {
+      return false;
+    }
+
+    if (!needle) return true;
+    return (
+      repo.full_name.toLowerCase().includes(needle) ||
+      (repo.description ?? "").toLowerCase().includes(needle)
+    );
+  });
+}
+
+/**
+ * Short summary of the active filters, e.g. "private, admin only"
+ */
+export function describeFilters(filters: RepositoryFilters): string {
+  const parts: string[] = [];
+  if (filters.visibility !== "all") parts.push(filters.visibility);
+  if (filters.adminOnly) parts.push("admin only");
+  if (!filters.includeForks) parts.push("no forks");
+  if (filters.includeArchived) parts.push("with archived");
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
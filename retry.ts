@@ -0,0 +1,143 @@
+import { RequestError } from "octokit";
+
+export interface RetryPolicy {
+  /** Attempts after the first one */
+  retries: number;
+  /** First backoff delay when the response doesn't say how long to wait */
+  baseDelayMs: number;
+  /** Give up rather than wait longer than this */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 2 * 60 * 1000,
+};
+
+/**
+ * Details of a retry, for progress messages
+ */
+export interface RetryNotice {
+  status: number;
+  attempt: number;
+  delayMs: number;
+}
+
+/**
+ * Whether GitHub rejected a request for sending too many. Secondary
+ * rate limits come back as 403 with a retry-after header or a message
+ * mentioning the limit.
+ */
+export function isRateLimited(error: RequestError): boolean {
+  if (error.status === 429) {
+    return true;
+  }
+  if (error.status !== 403) {
+    return false;
+  }
+
+  const headers = error.response?.headers ?? {};
+  return (
+    headers["retry-after"] !== undefined ||
+    String(headers["x-ratelimit-remaining"]) === "0" ||
+    /rate limit/i.test(error.message)
+  );
+}
+
+/**
+ * How long to wait before retrying a failed request, or null if it
+ * should fail now. Rate limits and 5xx responses are retried; the wait
+ * comes from retry-after or x-ratelimit-reset when GitHub sends them,
+ * otherwise from exponential backoff.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): number | null {
+  if (!(error instanceof RequestError) || attempt >= policy.retries) {
+    return null;
+  }
+
+  const rateLimited = isRateLimited(error);
+  if (!rateLimited && error.status < 500) {
+    return null;
+  }
+
+  const headers = error.response?.headers ?? {};
+  let requested: number | undefined;
+
+  if (headers["retry-after"] !== undefined) {
+    requested = Number(headers["retry-after"]) * 1000;
+  } else if (
+    rateLimited &&
+    String(headers["x-ratelimit-remaining"]) === "0" &&
+    headers["x-ratelimit-reset"] !== undefined
+  ) {
+    requested = Number(headers["x-ratelimit-reset"]) * 1000 - Date.now();
+  }
+
+  if (requested !== undefined && Number.isFinite(requested)) {
+    return requested > policy.maxDelayMs ? null : Math.max(requested, 0);
+  }
+
+  // GitHub asks to wait at least a minute after a secondary rate limit
+  // that doesn't say how long
+  const base = rateLimited ? 60 * 1000 : policy.baseDelayMs;
+  const jitter = Math.random() * policy.baseDelayMs;
+  return Math.min(base * 2 ** attempt + jitter, policy.maxDelayMs);
+}
+
+/**
+ * Run a request, retrying it while `getRetryDelay` allows
+ */
+export async function withRetries<T>(
+  run: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (notice: RetryNotice) => void,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const delayMs = getRetryDelay(error, attempt, policy);
+      if (delayMs === null) {
+        throw error;
+      }
+
+      onRetry?.({
+        status: (error as RequestError).status,
+        attempt: attempt + 1,
+        delayMs,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping the
+ * results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lanes = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index], index);
+      }
+    },
+  );
+
+  await Promise.all(lanes);
+  return results;
+}
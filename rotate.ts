@@ -0,0 +1,161 @@
+import { spawnSync } from "child_process";
+import sodium from "libsodium-wrappers";
+import {
+  BatchOptions,
+  BatchResult,
+  DEFAULT_CONCURRENCY,
+  GitHubService,
+  SecretTarget,
+  formatTarget,
+} from "./github.js";
+import { mapWithConcurrency } from "./retry.js";
+
+export type SecretFormat = "hex" | "base64" | "base64url" | "passphrase";
+
+export const SECRET_FORMATS: SecretFormat[] = [
+  "hex",
+  "base64",
+  "base64url",
+  "passphrase",
+];
+
+/**
+ * Random bytes per value, or words for a passphrase
+ */
+export const DEFAULT_LENGTHS: Record<SecretFormat, number> = {
+  hex: 32,
+  base64: 32,
+  base64url: 32,
+  passphrase: 6,
+};
+
+export const MAX_LENGTH = 1024;
+
+/**
+ * Passphrase words are made of consonant-vowel syllables, which keeps
+ * them pronounceable without shipping a word list
+ */
+const CONSONANTS = "bdfghjklmnprstvz";
+const VOWELS = "aeiou";
+const SYLLABLES_PER_WORD = 3;
+
+export interface GeneratedSecret {
+  value: string;
+  /** How hard the value is to guess */
+  entropyBits: number;
+}
+
+/**
+ * Generate a value from libsodium's CSPRNG. `length` counts random
+ * bytes, or words for a passphrase.
+ */
+export async function generateSecretValue(
+  format: SecretFormat,
+  length = DEFAULT_LENGTHS[format],
+): Promise<GeneratedSecret> {
+  if (!Number.isInteger(length) || length < 1 || length > MAX_LENGTH) {
+    throw new Error(`Length must be a whole number from 1 to ${MAX_LENGTH}`);
+  }
+  await sodium.ready;
+
+  if (format === "passphrase") {
+    const pick = (letters: string) =>
+      letters[sodium.randombytes_uniform(letters.length)];
+    const words = Array.from({ length }, () =>
+      Array.from(
+        { length: SYLLABLES_PER_WORD },
+        () => pick(CONSONANTS) + pick(VOWELS),
+      ).join(""),
+    );
+    return {
+      value: words.join("-"),
+      entropyBits: Math.floor(
+        length *
+          SYLLABLES_PER_WORD *
+          Math.log2(CONSONANTS.length * VOWELS.length),
+      ),
+    };
+  }
+
+  const bytes = sodium.randombytes_buf(length);
+  const value =
+    format === "hex"
+      ? sodium.to_hex(bytes)
+      : sodium.to_base64(
+          bytes,
+          format === "base64"
+            ? sodium.base64_variants.ORIGINAL
+            : sodium.base64_variants.URLSAFE_NO_PADDING,
+        );
+  sodium.memzero(bytes);
+  return { value, entropyBits: length * 8 };
+}
+
+/**
+ * e.g. "32 random bytes as hex" or "6-word passphrase"
+ */
+export function describeFormat(format: SecretFormat, length: number): string {
+  if (format === "passphrase") {
+    return `${length}-word passphrase`;
+  }
+  const label = format === "base64url" ? "URL-safe base64" : format;
+  return `${length} random bytes as ${label}`;
+}
+
+/**
+ * Write one value to every target. Results are labelled with the
+ * target, e.g. `my-org/api (environment: production)`.
+ */
+export async function rollOutSecret(
+  github: GitHubService,
+  targets: SecretTarget[],
+  secretName: string,
+  value: string,
+  options: BatchOptions = {},
+): Promise<BatchResult> {
+  const result: BatchResult = { success: [], failed: [] };
+  let done = 0;
+
+  await mapWithConcurrency(
+    targets,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (target) => {
+      const label = formatTarget(target);
+      try {
+        await github.createOrUpdateSecret(target, secretName, value);
+        result.success.push(label);
+      } catch (error) {
+        result.failed.push({
+          name: label,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      options.onProgress?.(++done, targets.length);
+    },
+  );
+
+  return result;
+}
+
+/**
+ * Hand a value to a shell command on stdin, e.g. to update the service
+ * that checks it. The command's output goes to the terminal.
+ */
+export function pipeToCommand(command: string, value: string) {
+  const result = spawnSync(command, {
+    input: value,
+    shell: true,
+    stdio: ["pipe", "inherit", "inherit"],
+  });
+
+  if (result.error) {
+    throw result.error;
+  }
+  if (result.status !== 0) {
+    throw new Error(
+      result.signal
+        ? `${command} was stopped by ${result.signal}`
+        : `${command} exited with ${result.status}`,
+    );
+  }
+}
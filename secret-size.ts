@@ -0,0 +1,82 @@
+import { readFileSync } from "fs";
+
+/**
+ * GitHub rejects secret values larger than this
+ */
+export const MAX_SECRET_BYTES = 48 * 1024;
+
+export const LARGE_SECRET_TIP = [
+  "GitHub limits secrets to 48 KB. For larger files, commit an encrypted copy",
+  "and store only its passphrase as a secret:",
+  "",
+  "  gpg --symmetric --cipher-algo AES256 my_secret.json",
+  "  git add my_secret.json.gpg",
+  "",
+  "and decrypt it in the workflow:",
+  "",
+  '  gpg --quiet --batch --yes --decrypt --passphrase="$PASSPHRASE" \\',
+  "    --output my_secret.json my_secret.json.gpg",
+].join("\n");
+
+/**
+ * A value GitHub would reject with a 422 because of its size
+ */
+export class SecretTooLargeError extends Error {
+  constructor(readonly bytes: number) {
+    super(
+      `Value is ${formatBytes(bytes)}, over GitHub's ${formatBytes(MAX_SECRET_BYTES)} limit. Encrypt the file in the repository and store only its passphrase.`,
+    );
+    this.name = "SecretTooLargeError";
+  }
+}
+
+/**
+ * Throw before encrypting a value that GitHub won't accept
+ */
+export function assertSecretSize(value: string) {
+  const bytes = Buffer.byteLength(value, "utf-8");
+  if (bytes > MAX_SECRET_BYTES) {
+    throw new SecretTooLargeError(bytes);
+  }
+}
+
+/**
+ * Read a file for use as a secret value. Binary files are base64-encoded,
+ * which makes them about a third larger.
+ */
+export function readSecretFile(
+  path: string,
+  base64: boolean,
+): { value: string; fileBytes: number; valueBytes: number } {
+  const content = readFileSync(path);
+  const value = base64 ? content.toString("base64") : content.toString("utf-8");
+  return {
+    value,
+    fileBytes: content.length,
+    valueBytes: Buffer.byteLength(value, "utf-8"),
+  };
+}
+
+/**
+ * Whether file content looks binary, i.e. contains NUL bytes or isn't
+ * valid UTF-8
+ */
+export function looksBinary(path: string): boolean {
+  const content = readFileSync(path);
+  if (content.includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(content);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
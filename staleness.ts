@@ -0,0 +1,161 @@
+import chalk from "chalk";
+import { DEFAULT_CONCURRENCY, GitHubService, SecretKind } from "./github.js";
+import { mapWithConcurrency } from "./retry.js";
+
+export const DEFAULT_MAX_AGE_DAYS = 90;
+
+export type StalenessSort = "age" | "name" | "repo";
+
+export const STALENESS_SORTS: StalenessSort[] = ["age", "name", "repo"];
+
+/**
+ * A secret with how long ago it was last written
+ */
+export interface SecretAge {
+  repository: string;
+  kind: SecretKind;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  /** Whole days since updated_at */
+  age_days: number;
+  /** Older than the maximum age */
+  stale: boolean;
+}
+
+export interface StalenessReport {
+  secrets: SecretAge[];
+  /** Repositories whose secrets couldn't be listed, e.g. without admin access */
+  failed: { repository: string; error: string }[];
+}
+
+export interface StalenessOptions {
+  kind?: SecretKind;
+  maxAgeDays?: number;
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a maximum age such as `90`, `90d` or `12w` as days
+ */
+export function parseMaxAge(value: string): number | null {
+  const match = value.trim().match(/^(\d+)([dw]?)$/);
+  if (!match || Number(match[1]) === 0) {
+    return null;
+  }
+  return Number(match[1]) * (match[2] === "w" ? 7 : 1);
+}
+
+/**
+ * List the secrets of every repository and how old they are. A
+ * repository that can't be listed is reported instead of failing the
+ * whole report.
+ */
+export async function collectSecretAges(
+  github: GitHubService,
+  repositories: string[],
+  options: StalenessOptions = {},
+): Promise<StalenessReport> {
+  const kind = options.kind ?? "actions";
+  const maxAgeDays = options.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS;
+  const now = options.now ?? Date.now();
+  const report: StalenessReport = { secrets: [], failed: [] };
+  let done = 0;
+
+  await mapWithConcurrency(
+    repositories,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (repository) => {
+      const [owner, repo] = repository.split("/");
+      try {
+        for (const secret of await github.listRepoSecrets(owner, repo, kind)) {
+          const ageDays = Math.floor(
+            (now - Date.parse(secret.updated_at)) / DAY_MS,
+          );
+          report.secrets.push({
+            repository,
+            kind,
+            name: secret.name,
+            created_at: secret.created_at,
+            updated_at: secret.updated_at,
+            age_days: ageDays,
+            stale: ageDays > maxAgeDays,
+          });
+        }
+      } catch (error) {
+        report.failed.push({
+          repository,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      options.onProgress?.(++done, repositories.length);
+    },
+  );
+
+  return report;
+}
+
+/**
+ * Oldest first by default; ties are broken by repository, then name
+ */
+export function sortSecretAges(
+  secrets: SecretAge[],
+  by: StalenessSort = "age",
+): SecretAge[] {
+  const byRepo = (a: SecretAge, b: SecretAge) =>
+    a.repository.localeCompare(b.repository) || a.name.localeCompare(b.name);
+
+  return [...secrets].sort((a, b) => {
+    switch (by) {
+      case "age":
+        return b.age_days - a.age_days || byRepo(a, b);
+      case "name":
+        return a.name.localeCompare(b.name) || byRepo(a, b);
+      case "repo":
+        return byRepo(a, b);
+    }
+  });
+}
+
+/**
+ * Render the secrets as a table, stale ones in red
+ */
+export function formatStalenessTable(secrets: SecretAge[]): string[] {
+  const repoWidth = Math.max(10, ...secrets.map((s) => s.repository.length));
+
+  return [
+    chalk.bold(
+      `${"Age".padStart(5)}  ${"Updated".padEnd(10)}  ${"Repository".padEnd(repoWidth)}  Secret`,
+    ),
+    ...secrets.map((secret) => {
+      const line = `${`${secret.age_days}d`.padStart(5)}  ${secret.updated_at.slice(0, 10)}  ${secret.repository.padEnd(repoWidth)}  ${secret.name}`;
+      return secret.stale ? chalk.red(line) : line;
+    }),
+  ];
+}
+
+const CSV_COLUMNS: (keyof SecretAge)[] = [
+  "repository",
+  "kind",
+  "name",
+  "created_at",
+  "updated_at",
+  "age_days",
+  "stale",
+];
+
+export function formatStalenessCsv(secrets: SecretAge[]): string {
+  const quote = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...secrets.map((secret) =>
+      CSV_COLUMNS.map((column) => quote(String(secret[column]))).join(","),
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,125 @@
+import chalk from "chalk";
+import { filterValidSecrets } from "./env-parser.js";
+import {
+  BatchOptions,
+  BatchResult,
+  GitHubService,
+  Secret,
+  SecretTarget,
+} from "./github.js";
+
+/**
+ * Name-level differences between a local .env file and a secret target
+ */
+export interface SyncPlan {
+  /** In the file but not on GitHub */
+  added: string[];
+  /** In the file and on GitHub; the remote value will be replaced */
+  overwritten: string[];
+  /** On GitHub but not in the file; candidates for pruning */
+  remoteOnly: string[];
+  /** Names in the file that GitHub doesn't accept */
+  invalid: string[];
+  /** Values to upload for `added` and `overwritten` */
+  values: Record<string, string>;
+}
+
+export interface SyncResult {
+  uploaded: BatchResult;
+  deleted: BatchResult;
+}
+
+/**
+ * Compare local entries with the remote secret names.
+ * GitHub stores secret names in upper case, so names are compared
+ * case-insensitively.
+ */
+export function planSync(
+  local: Record<string, string>,
+  remote: Secret[],
+): SyncPlan {
+  const { valid, invalid } = filterValidSecrets(local);
+  const remoteNames = new Set(remote.map((s) => s.name.toUpperCase()));
+  const localNames = new Set(Object.keys(valid).map((n) => n.toUpperCase()));
+
+  const added: string[] = [];
+  const overwritten: string[] = [];
+
+  for (const name of Object.keys(valid)) {
+    if (remoteNames.has(name.toUpperCase())) {
+      overwritten.push(name);
+    } else {
+      added.push(name);
+    }
+  }
+
+  const remoteOnly = remote
+    .map((s) => s.name)
+    .filter((name) => !localNames.has(name.toUpperCase()));
+
+  return { added, overwritten, remoteOnly, invalid, values: valid };
+}
+
+/**
+ * Whether applying the plan would change anything
+ */
+export function hasChanges(plan: SyncPlan, prune: boolean): boolean {
+  return (
+    plan.added.length > 0 ||
+    plan.overwritten.length > 0 ||
+    (prune && plan.remoteOnly.length > 0)
+  );
+}
+
+/**
+ * Render the plan as printable lines
+ */
+export function formatSyncPlan(plan: SyncPlan, prune: boolean): string[] {
+  const section = (
+    title: string,
+    names: string[],
+    color: (text: string) => string,
+    marker: string,
+  ) =>
+    names.length === 0
+      ? []
+      : [
+          color(`${title} (${names.length}):`),
+          ...names.map((name) => color(`  ${marker} ${name}`)),
+        ];
+
+  return [
+    ...section("Add", plan.added, chalk.green, "+"),
+    ...section("Overwrite", plan.overwritten, chalk.cyan, "~"),
+    ...section(
+      prune ? "Delete (remote only)" : "Remote only (kept)",
+      plan.remoteOnly,
+      prune ? chalk.red : chalk.gray,
+      prune ? "-" : "=",
+    ),
+    ...section("Invalid names (skipped)", plan.invalid, chalk.yellow, "!"),
+  ];
+}
+
+/**
+ * Upload added and overwritten secrets, then delete remote-only
+ * secrets when `prune` is set
+ */
+export async function applySyncPlan(
+  github: GitHubService,
+  target: SecretTarget,
+  plan: SyncPlan,
+  prune: boolean,
+  options: BatchOptions = {},
+): Promise<SyncResult> {
+  const uploaded = await github.batchCreateSecrets(
+    target,
+    plan.values,
+    options,
+  );
+  const deleted = prune
+    ? await github.batchDeleteSecrets(target, plan.remoteOnly, options)
+    : { success: [], failed: [] };
+
+  return { uploaded, deleted };
+}
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  EnvParseError,
+  EnvWarning,
+  filterValidSecrets,
+  parseEnvFile,
+  validateSecretName,
+} from "../env-parser.js";
+
+describe("parseEnvFile", () => {
+  it("reads plain, exported and commented lines", () => {
+    const secrets = parseEnvFile(
+      "# comment\nexport A=1\nB = two # trailing\n\nC=#not-a-comment\n",
+    );
+    assert.deepEqual({ ...secrets }, { A: "1", B: "two", C: "" });
+  });
+
+  it("takes single-quoted values literally", () => {
+    const secrets = parseEnvFile("A='a\\nb $HOME'", { expand: true });
+    assert.equal(secrets.A, "a\\nb $HOME");
+  });
+
+  it("applies escapes in double-quoted values", () => {
+    const secrets = parseEnvFile('A="line1\\nline2\\t\\"q\\""');
+    assert.equal(secrets.A, 'line1\nline2\t"q"');
+  });
+
+  it("reads quoted values spanning several lines", () => {
+    const secrets = parseEnvFile(
+      'KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1',
+    );
+    assert.equal(secrets.KEY, "-----BEGIN KEY-----\nabc\n-----END KEY-----");
+    assert.equal(secrets.NEXT, "1");
+  });
+
+  it("reports the line of an unclosed quote", () => {
+    assert.throws(
+      () => parseEnvFile('A=1\nB="open\nC=3'),
+      (error: unknown) =>
+        error instanceof EnvParseError &&
+        error.line === 2 &&
+        error.reason === 'Missing closing " for B',
+    );
+  });
+
+  it("never quotes the offending line in an error", () => {
+    assert.throws(
+      () => parseEnvFile("not a pair hunter2"),
+      (error: unknown) =>
+        error instanceof EnvParseError && !error.message.includes("hunter2"),
+    );
+  });
+
+  it("warns about duplicate keys and keeps the last value", () => {
+    const warnings: EnvWarning[] = [];
+    const secrets = parseEnvFile("A=1\nA=2", {
+      onWarning: (warning) => warnings.push(warning),
+    });
+    assert.equal(secrets.A, "2");
+    assert.equal(warnings.length, 1);
+    assert.equal(warnings[0].line, 2);
+  });
+
+  describe("with expand", () => {
+    it("replaces earlier keys, defaults and environment variables", () => {
+      process.env.ENV_PARSER_TEST = "from-env";
+      try {
+        const secrets = parseEnvFile(
+          'HOST=db\nURL="postgres://${HOST}:${PORT:-5432}/$ENV_PARSER_TEST"',
+          { expand: true },
+        );
+        assert.equal(secrets.URL, "postgres://db:5432/from-env");
+      } finally {
+        delete process.env.ENV_PARSER_TEST;
+      }
+    });
+
+    it("leaves an escaped dollar sign alone", () => {
+      const secrets = parseEnvFile('A=1\nB="\\$A"', { expand: true });
+      assert.equal(secrets.B, "$A");
+    });
+
+    it("doesn't expand without the option", () => {
+      assert.equal(parseEnvFile("A=1\nB=$A").B, "$A");
+    });
+
+    it("doesn't read names from the object prototype", () => {
+      const warnings: EnvWarning[] = [];
+      const secrets = parseEnvFile("A=${toString}\nB=${constructor}", {
+        expand: true,
+        onWarning: (warning) => warnings.push(warning),
+      });
+      assert.equal(secrets.A, "");
+      assert.equal(secrets.B, "");
+      assert.equal(warnings.length, 2);
+    });
+
+    it("keeps a __proto__ key as an ordinary key", () => {
+      const secrets = parseEnvFile("__proto__=p\nA=${__proto__}", {
+        expand: true,
+      });
+      assert.deepEqual(Object.entries(secrets), [
+        ["__proto__", "p"],
+        ["A", "p"],
+      ]);
+    });
+  });
+});
+
+describe("validateSecretName", () => {
+  it("accepts names GitHub allows", () => {
+    assert.ok(validateSecretName("API_KEY"));
+    assert.ok(validateSecretName("_private"));
+  });
+
+  it("rejects reserved, numeric-first and punctuated names", () => {
+    assert.ok(!validateSecretName("GITHUB_TOKEN"));
+    assert.ok(!validateSecretName("1PASSWORD"));
+    assert.ok(!validateSecretName("my-key"));
+  });
+});
+
+describe("filterValidSecrets", () => {
+  it("splits valid secrets from invalid names", () => {
+    const { valid, invalid } = filterValidSecrets({
+      GOOD: "1",
+      "bad-name": "2",
+      GITHUB_X: "3",
+    });
+    assert.deepEqual({ ...valid }, { GOOD: "1" });
+    assert.deepEqual(invalid, ["bad-name", "GITHUB_X"]);
+  });
+});
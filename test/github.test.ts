@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import sodium from "libsodium-wrappers";
+import {
+  DryRunRequest,
+  GitHubService,
+  formatDryRunRequest,
+} from "../github.js";
+
+const target = { owner: "my-org", repo: "api" };
+
+/**
+ * Answer GitHub's list and public-key endpoints, and fail the test on
+ * any write that dry-run mode should have held back
+ */
+function stubGitHub(existing: {
+  secrets?: string[];
+  variables?: string[];
+}): string[] {
+  const sent: string[] = [];
+  const keyPair = sodium.crypto_box_keypair();
+
+  globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+    const url = String(input);
+    const method = init?.method ?? "GET";
+    sent.push(`${method} ${new URL(url).pathname}`);
+
+    let body: unknown;
+    if (method !== "GET") {
+      body = { message: `Unexpected ${method} in dry-run mode` };
+    } else if (url.includes("/public-key")) {
+      body = {
+        key_id: "1",
+        key: sodium.to_base64(
+          keyPair.publicKey,
+          sodium.base64_variants.ORIGINAL,
+        ),
+      };
+    } else if (url.includes("/actions/secrets")) {
+      const secrets = (existing.secrets ?? []).map((name) => ({ name }));
+      body = { total_count: secrets.length, secrets };
+    } else if (url.includes("/actions/variables")) {
+      const variables = (existing.variables ?? []).map((name) => ({ name }));
+      body = { total_count: variables.length, variables };
+    }
+
+    const response = new Response(JSON.stringify(body ?? {}), {
+      status: method === "GET" ? 200 : 500,
+      headers: { "content-type": "application/json" },
+    });
+    Object.defineProperty(response, "url", { value: url });
+    return response;
+  }) as typeof fetch;
+
+  return sent;
+}
+
+describe("dry-run previews", () => {
+  const originalFetch = globalThis.fetch;
+  let previews: DryRunRequest[];
+  let github: GitHubService;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    previews = [];
+    github = new GitHubService("token", {
+      dryRun: true,
+      audit: null,
+      onDryRun: (request) => previews.push(request),
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("labels a secret the target doesn't have as a create", async () => {
+    stubGitHub({ secrets: ["OTHER"] });
+    await github.createOrUpdateSecret(target, "API_KEY", "value");
+    assert.deepEqual(previews, [
+      {
+        method: "PUT",
+        path: "/repos/my-org/api/actions/secrets/API_KEY",
+        change: "create",
+      },
+    ]);
+  });
+
+  it("labels an existing secret as an overwrite, ignoring case", async () => {
+    stubGitHub({ secrets: ["API_KEY"] });
+    await github.createOrUpdateSecret(target, "api_key", "value");
+    assert.equal(previews[0].change, "overwrite");
+  });
+
+  it("counts a secret created earlier in the run as existing", async () => {
+    stubGitHub({});
+    await github.createOrUpdateSecret(target, "API_KEY", "one");
+    await github.createOrUpdateSecret(target, "API_KEY", "two");
+    assert.deepEqual(
+      previews.map((request) => request.change),
+      ["create", "overwrite"],
+    );
+  });
+
+  it("labels deletes", async () => {
+    stubGitHub({ secrets: ["API_KEY"] });
+    await github.deleteSecret(target, "API_KEY");
+    assert.deepEqual(previews, [
+      {
+        method: "DELETE",
+        path: "/repos/my-org/api/actions/secrets/API_KEY",
+        change: "delete",
+      },
+    ]);
+  });
+
+  it("falls back to creating a variable that doesn't exist", async () => {
+    stubGitHub({ variables: [] });
+    await github.createOrUpdateVariable(target, "REGION", "eu");
+    assert.deepEqual(previews, [
+      {
+        method: "POST",
+        path: "/repos/my-org/api/actions/variables",
+        change: "create",
+      },
+    ]);
+  });
+
+  it("updates an existing variable in place", async () => {
+    stubGitHub({ variables: ["REGION"] });
+    await github.createOrUpdateVariable(target, "region", "eu");
+    assert.deepEqual(previews, [
+      {
+        method: "PATCH",
+        path: "/repos/my-org/api/actions/variables/region",
+        change: "overwrite",
+      },
+    ]);
+  });
+
+  it("never sends a write", async () => {
+    const sent = stubGitHub({ secrets: ["API_KEY"] });
+    await github.createOrUpdateSecret(target, "API_KEY", "value");
+    await github.deleteSecret(target, "API_KEY");
+    assert.ok(sent.every((request) => request.startsWith("GET ")));
+  });
+});
+
+describe("formatDryRunRequest", () => {
+  it("describes the change", () => {
+    assert.equal(
+      formatDryRunRequest({
+        method: "PUT",
+        path: "/repos/my-org/api/actions/secrets/API_KEY",
+        change: "overwrite",
+      }),
+      "[dry run] PUT /repos/my-org/api/actions/secrets/API_KEY (overwrites existing)",
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  LintFinding,
+  formatBlockedMessage,
+  isBlocking,
+  lintSecrets,
+} from "../lint.js";
+import { MAX_SECRET_BYTES } from "../secret-size.js";
+
+const rules = (findings: LintFinding[]) =>
+  findings.map(({ rule, severity }) => `${rule}:${severity}`);
+
+describe("lintSecrets", () => {
+  it("finds nothing wrong with ordinary values", () => {
+    assert.deepEqual(lintSecrets({ API_KEY: "s3cr3t", PEM: "key\n" }), []);
+  });
+
+  it("reports case collisions as errors", () => {
+    assert.deepEqual(rules(lintSecrets({ api_key: "a", API_KEY: "b" })), [
+      "case-collision:error",
+    ]);
+  });
+
+  it("reports oversized values as errors", () => {
+    const findings = lintSecrets({ BIG: "a".repeat(MAX_SECRET_BYTES + 1) });
+    assert.deepEqual(rules(findings), ["too-large:error"]);
+  });
+
+  it("reports empty values, placeholders and stray spaces as warnings", () => {
+    assert.deepEqual(
+      rules(
+        lintSecrets({
+          EMPTY: "",
+          TODO: "changeme",
+          KEY: "<your-key>",
+          PAD: " x",
+        }),
+      ),
+      [
+        "empty:warning",
+        "placeholder:warning",
+        "placeholder:warning",
+        "whitespace:warning",
+      ],
+    );
+  });
+
+  it("skips references and reads escaped literals without the extra @", () => {
+    assert.deepEqual(lintSecrets({ A: "@file:./key.pem", B: "@@handle " }), [
+      {
+        rule: "whitespace",
+        severity: "warning",
+        name: "B",
+        message: "value starts or ends with whitespace",
+      },
+    ]);
+  });
+
+  describe("tracked-file", () => {
+    let dir: string;
+
+    before(() => {
+      dir = mkdtempSync(join(tmpdir(), "gh-secrets-lint-"));
+      writeFileSync(join(dir, ".env"), "");
+      spawnSync("git", ["init", "-q"], { cwd: dir });
+      spawnSync("git", ["add", ".env"], { cwd: dir });
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it("warns when the file holds values and is tracked by git", () => {
+      const findings = lintSecrets(
+        { TOKEN: "s3cr3t" },
+        { sourceFile: join(dir, ".env") },
+      );
+      assert.deepEqual(rules(findings), ["tracked-file:warning"]);
+    });
+
+    it("accepts a tracked file of only references", () => {
+      const findings = lintSecrets(
+        { TOKEN: "@env:TOKEN", KEY: "@file:./key.pem" },
+        { sourceFile: join(dir, ".env") },
+      );
+      assert.deepEqual(findings, []);
+    });
+
+    it("ignores untracked files", () => {
+      writeFileSync(join(dir, "other.env"), "");
+      const findings = lintSecrets(
+        { TOKEN: "s3cr3t" },
+        { sourceFile: join(dir, "other.env") },
+      );
+      assert.deepEqual(findings, []);
+    });
+  });
+});
+
+describe("isBlocking", () => {
+  const warning: LintFinding = {
+    rule: "empty",
+    severity: "warning",
+    name: "A",
+    message: "value is empty",
+  };
+  const error: LintFinding = {
+    rule: "too-large",
+    severity: "error",
+    name: "B",
+    message: "too large",
+  };
+
+  it("never blocks without findings", () => {
+    assert.equal(isBlocking([], false), false);
+    assert.equal(isBlocking([], true), false);
+  });
+
+  it("always blocks on errors", () => {
+    assert.equal(isBlocking([error], false), true);
+    assert.equal(isBlocking([warning, error], false), true);
+  });
+
+  it("blocks on warnings only in strict mode", () => {
+    assert.equal(isBlocking([warning], false), false);
+    assert.equal(isBlocking([warning], true), true);
+  });
+
+  it("points at --strict only when warnings alone blocked", () => {
+    assert.match(formatBlockedMessage([warning], "run"), /without --strict/);
+    assert.doesNotMatch(
+      formatBlockedMessage([warning, error], "run"),
+      /--strict/,
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  escapeValue,
+  isValueReference,
+  resolveAllReferences,
+  resolveValueReference,
+} from "../references.js";
+
+describe("isValueReference", () => {
+  it("recognizes every reference prefix", () => {
+    for (const value of [
+      "@file:./key.pem",
+      "@base64:./app.keystore",
+      "@cmd:echo hi",
+      "@env:TOKEN",
+      "@pass:ci/token",
+      "@sops:secrets.enc.yaml#db.password",
+    ]) {
+      assert.ok(isValueReference(value), value);
+    }
+  });
+
+  it("treats other values, including escaped ones, as literals", () => {
+    assert.ok(!isValueReference("plain"));
+    assert.ok(!isValueReference("@handle"));
+    assert.ok(!isValueReference("@@file:./key.pem"));
+  });
+});
+
+describe("escapeValue", () => {
+  it("doubles a leading @", () => {
+    assert.equal(escapeValue("@file:./key.pem"), "@@file:./key.pem");
+    assert.equal(escapeValue("@handle"), "@@handle");
+  });
+
+  it("leaves other values unchanged", () => {
+    assert.equal(escapeValue("plain@example.com"), "plain@example.com");
+  });
+
+  it("round-trips through resolveValueReference", () => {
+    for (const value of ["@file:./key.pem", "@@already", "@", "plain"]) {
+      assert.equal(resolveValueReference(escapeValue(value)), value);
+    }
+  });
+});
+
+describe("resolveValueReference", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "gh-secrets-references-"));
+    writeFileSync(join(dir, "key.pem"), "-----BEGIN KEY-----\n");
+    writeFileSync(join(dir, "blob.bin"), Buffer.from([0xff, 0x00, 0x01]));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("reads files relative to the base directory", () => {
+    assert.equal(
+      resolveValueReference("@file:./key.pem", dir),
+      "-----BEGIN KEY-----\n",
+    );
+  });
+
+  it("base64-encodes binary files", () => {
+    assert.equal(resolveValueReference("@base64:blob.bin", dir), "/wAB");
+  });
+
+  it("runs commands in the base directory, dropping one trailing newline", () => {
+    assert.equal(
+      resolveValueReference("@cmd:cat key.pem; echo", dir),
+      "-----BEGIN KEY-----\n",
+    );
+  });
+
+  it("reads environment variables", () => {
+    process.env.REFERENCES_TEST = "secret";
+    try {
+      assert.equal(resolveValueReference("@env:REFERENCES_TEST"), "secret");
+    } finally {
+      delete process.env.REFERENCES_TEST;
+    }
+  });
+
+  it("fails for an unset environment variable", () => {
+    assert.throws(
+      () => resolveValueReference("@env:REFERENCES_TEST_UNSET"),
+      /REFERENCES_TEST_UNSET is not set/,
+    );
+  });
+
+  it("fails for a reference without an argument", () => {
+    assert.throws(() => resolveValueReference("@file: "), /needs an argument/);
+  });
+
+  it("returns literals unchanged", () => {
+    assert.equal(resolveValueReference("plain"), "plain");
+  });
+});
+
+describe("resolveAllReferences", () => {
+  it("resolves references and escapes the results", () => {
+    process.env.REFERENCES_TEST = "@looks-like-a-reference";
+    try {
+      assert.deepEqual(
+        resolveAllReferences({
+          A: "@env:REFERENCES_TEST",
+          B: "literal",
+        }),
+        { A: "@@looks-like-a-reference", B: "literal" },
+      );
+    } finally {
+      delete process.env.REFERENCES_TEST;
+    }
+  });
+});
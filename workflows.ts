@@ -0,0 +1,208 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { parse } from "yaml";
+import { WorkflowFile } from "./github.js";
+
+/**
+ * Secrets GitHub provides to every workflow run
+ */
+const BUILT_IN_SECRETS = new Set(["GITHUB_TOKEN"]);
+
+/**
+ * Secret references found in a set of workflow files
+ */
+export interface WorkflowScan {
+  /** Secret name, upper-cased like GitHub stores it → files using it */
+  references: Map<string, string[]>;
+  /** Names declared under `on.workflow_call.secrets`, passed in by callers */
+  declared: Set<string>;
+  /**
+   * Files that pass every secret along, with `toJSON(secrets)` or by
+   * calling a reusable workflow with `secrets: inherit`
+   */
+  usesAllSecrets: string[];
+  errors: { file: string; error: string }[];
+}
+
+/**
+ * How each referenced secret is provided, and which repository secrets
+ * no workflow references
+ */
+export interface SecretUsageReport {
+  fromRepository: string[];
+  fromOrganization: string[];
+  fromEnvironment: string[];
+  passedByCaller: string[];
+  missing: string[];
+  unused: string[];
+}
+
+/**
+ * Names referenced as `secrets.NAME` or `secrets['NAME']` in a piece
+ * of workflow text, upper-cased
+ */
+export function extractSecretReferences(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\bsecrets\.([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    names.add(match[1].toUpperCase());
+  }
+  for (const match of text.matchAll(
+    /\bsecrets\[\s*(['"])([A-Za-z_][A-Za-z0-9_]*)\1\s*\]/g,
+  )) {
+    names.add(match[2].toUpperCase());
+  }
+  return [...names];
+}
+
+/**
+ * Read `.github/workflows/*.yml` from a local checkout
+ */
+export function readLocalWorkflows(root = process.cwd()): WorkflowFile[] {
+  const dir = join(root, ".github", "workflows");
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter((name) => /\.ya?ml$/i.test(name))
+    .sort()
+    .map((name) => ({
+      path: `.github/workflows/${name}`,
+      content: readFileSync(join(dir, name), "utf-8"),
+    }));
+}
+
+/**
+ * Collect the secret references of every workflow. Only YAML values are
+ * searched, so commented-out steps don't count; this covers `env:`,
+ * `with:`, `if:` and the `secrets:` mapping of reusable-workflow calls.
+ */
+export function scanWorkflows(files: WorkflowFile[]): WorkflowScan {
+  const scan: WorkflowScan = {
+    references: new Map(),
+    declared: new Set(),
+    usesAllSecrets: [],
+    errors: [],
+  };
+
+  for (const file of files) {
+    let workflow: unknown;
+    try {
+      workflow = parse(file.content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // YAML errors go on to quote the offending lines
+      scan.errors.push({ file: file.path, error: message.split("\n")[0] });
+      continue;
+    }
+
+    const values: string[] = [];
+    collectStrings(workflow, values);
+
+    for (const name of extractSecretReferences(values.join("\n"))) {
+      const users = scan.references.get(name) ?? [];
+      users.push(file.path);
+      scan.references.set(name, users);
+    }
+    if (
+      values.some((value) => /\btoJSON\(\s*secrets\s*\)/i.test(value)) ||
+      inheritsSecrets(workflow)
+    ) {
+      scan.usesAllSecrets.push(file.path);
+    }
+
+    for (const name of Object.keys(workflowCallSecrets(workflow))) {
+      scan.declared.add(name.toUpperCase());
+    }
+  }
+
+  return scan;
+}
+
+function collectStrings(value: unknown, into: string[]) {
+  if (typeof value === "string") {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, into));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStrings(item, into));
+  }
+}
+
+/**
+ * Whether a job calls a reusable workflow with `secrets: inherit`
+ */
+function inheritsSecrets(workflow: unknown): boolean {
+  const jobs = (workflow as { jobs?: unknown } | null)?.jobs;
+  return (
+    !!jobs &&
+    typeof jobs === "object" &&
+    Object.values(jobs).some(
+      (job) => (job as { secrets?: unknown } | null)?.secrets === "inherit",
+    )
+  );
+}
+
+/**
+ * The `on.workflow_call.secrets` mapping of a reusable workflow
+ */
+function workflowCallSecrets(workflow: unknown): Record<string, unknown> {
+  const on = (workflow as { on?: unknown } | null)?.on;
+  const call = (on as { workflow_call?: unknown } | null)?.workflow_call;
+  const secrets = (call as { secrets?: unknown } | null)?.secrets;
+  return secrets && typeof secrets === "object"
+    ? (secrets as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Match the references against the secrets available to the repository.
+ * A name can be set at several levels; it is listed under the first of
+ * repository, organization and environment that has it.
+ */
+export function analyzeSecretUsage(
+  scan: WorkflowScan,
+  available: {
+    repository: string[];
+    organization: string[];
+    environments: string[];
+  },
+): SecretUsageReport {
+  const upper = (names: string[]) =>
+    new Set(names.map((name) => name.toUpperCase()));
+  const repository = upper(available.repository);
+  const organization = upper(available.organization);
+  const environments = upper(available.environments);
+
+  const report: SecretUsageReport = {
+    fromRepository: [],
+    fromOrganization: [],
+    fromEnvironment: [],
+    passedByCaller: [],
+    missing: [],
+    unused: [],
+  };
+
+  for (const name of [...scan.references.keys()].sort()) {
+    if (BUILT_IN_SECRETS.has(name)) {
+      continue;
+    }
+    if (repository.has(name)) {
+      report.fromRepository.push(name);
+    } else if (organization.has(name)) {
+      report.fromOrganization.push(name);
+    } else if (environments.has(name)) {
+      report.fromEnvironment.push(name);
+    } else if (scan.declared.has(name)) {
+      report.passedByCaller.push(name);
+    } else {
+      report.missing.push(name);
+    }
+  }
+
+  report.unused = available.repository
+    .filter((name) => !scan.references.has(name.toUpperCase()))
+    .sort();
+
+  return report;
+}